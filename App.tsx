@@ -2,33 +2,60 @@ import React, { useState, useRef, useEffect } from 'react';
 import CalligraphyCanvas, { CalligraphyCanvasHandle } from './components/CalligraphyCanvas';
 import ControlPanel from './components/ControlPanel';
 import UserGuide from './components/UserGuide';
-import { BrushSettings, AppMode, ViewState, Preset } from './types';
+import PressureCalibration from './components/PressureCalibration';
+import PngExportDialog from './components/PngExportDialog';
+import PdfExportDialog from './components/PdfExportDialog';
+import { BrushSettings, AppMode, ViewState, Preset, PressureProfiles, PngExportOptions, PdfExportOptions, TextBox, TextBlock, UserFont, FontLoadState } from './types';
 import { Settings2, Undo2, Trash2, Dices, RotateCcw, BookOpen } from 'lucide-react';
 import { generateCreativeSettings } from './services/geminiService';
+import { loadPressureProfiles, savePressureProfiles } from './utils/pressureCurve';
+import { DEFAULT_PNG_EXPORT_OPTIONS } from './utils/pngExport';
+import { DEFAULT_PDF_EXPORT_OPTIONS } from './utils/pdfExport';
+import { createRandom, createSeed, RandomFn } from './utils/random';
+import { addUserFont, deleteUserFont, loadUserFonts } from './utils/userFonts';
 
-const generateRandomSettings = (current: BrushSettings): BrushSettings => {
+const generateRandomSettings = (current: BrushSettings, random: RandomFn): BrushSettings => {
   return {
     ...current,
-    size: Math.floor(Math.random() * 50) + 10,
-    roughness: Math.random() * 0.8,
-    taper: Math.random() * 0.9 + 0.1,
-    roundness: Math.random() * 0.9 + 0.1,
-    angle: Math.floor(Math.random() * 180),
-    hardness: Math.random() * 0.9 + 0.1,
-    spacing: Math.random() * 0.2,
+    size: Math.floor(random() * 50) + 10,
+    roughness: random() * 0.8,
+    taper: random() * 0.9 + 0.1,
+    roundness: random() * 0.9 + 0.1,
+    angle: Math.floor(random() * 180),
+    hardness: random() * 0.9 + 0.1,
+    spacing: random() * 0.2,
   };
 };
 
+// A locked seed is kept, otherwise every new piece of text or dice roll gets a fresh one
+const nextSeed = (current: BrushSettings): number => {
+  return current.seedLocked ? current.seed : createSeed();
+};
+
 // Define Factory Defaults based on user request
 const FACTORY_DEFAULTS: BrushSettings = {
   size: 10,
   roughness: 0.45,
   taper: 0.7,
   color: '#1a1a1a',
+  concentration: 'DARK',
+  tipType: 'ELLIPSE',
   roundness: 0.22,
   angle: 85,
+  tipAngleMode: 'FIXED',
+  followStylus: true,
   hardness: 0.8,
   spacing: 0,
+  smoothing: 0.5,
+  stabilizer: 'OFF',
+  stabilizerStrength: 0.5,
+  entryPress: 0.3,
+  cornerPress: 0.3,
+  exitStyle: 'TAPER',
+  absorbency: 0.4,
+  wetness: 0.3,
+  inkLoad: 1.0,
+  inkDepletion: 0.2,
   
   // Text Defaults
   letterSpacing: 0, 
@@ -36,7 +63,14 @@ const FACTORY_DEFAULTS: BrushSettings = {
   slant: 0,         
   fontSize: 150,    
   fontStyle: 'PEN',
+  customFontId: null,
   weightOption: 'NORMAL',
+  writingDirection: 'HORIZONTAL',
+  textAlign: 'CENTER',
+  fitToBox: false,
+  textReveal: 'WRITE',
+  seed: createSeed(),
+  seedLocked: false,
   
   // Tools
   isEraser: false
@@ -57,14 +91,29 @@ const App: React.FC = () => {
     offset: { x: 0, y: 0 }
   });
   
-  const [textToRender, setTextToRender] = useState<string>('');
+  const [textBlocks, setTextBlocks] = useState<TextBlock[]>([]);
+  const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
   const [triggerClear, setTriggerClear] = useState(false);
   
   const [showGuides, setShowGuides] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isGuideOpen, setIsGuideOpen] = useState(false);
+  const [isCalibrationOpen, setIsCalibrationOpen] = useState(false);
+  const [isPngExportOpen, setIsPngExportOpen] = useState(false);
+  const [pngExportOptions, setPngExportOptions] = useState<PngExportOptions>(DEFAULT_PNG_EXPORT_OPTIONS);
+  const [isPdfExportOpen, setIsPdfExportOpen] = useState(false);
+  const [pdfExportOptions, setPdfExportOptions] = useState<PdfExportOptions>(DEFAULT_PDF_EXPORT_OPTIONS);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [isAdjusting, setIsAdjusting] = useState(false);
   
   const [presets, setPresets] = useState<Preset[]>([]);
+  const [inkLevel, setInkLevel] = useState(FACTORY_DEFAULTS.inkLoad);
+  // Per-device pressure calibration, kept separately from brush settings and presets
+  const [pressureProfiles, setPressureProfiles] = useState<PressureProfiles>(loadPressureProfiles);
+  const [userFonts, setUserFonts] = useState<UserFont[]>([]);
+  const [fontState, setFontState] = useState<FontLoadState>({ status: 'READY', families: [] });
+  // Bumped once user fonts are registered, so text set before they arrived is redrawn
+  const [fontsVersion, setFontsVersion] = useState(0);
 
   const canvasRef = useRef<CalligraphyCanvasHandle>(null);
 
@@ -84,12 +133,18 @@ const App: React.FC = () => {
     const savedCurrent = localStorage.getItem('seoye_current_settings');
     if (savedCurrent) {
         try {
-            const parsed = JSON.parse(savedCurrent);
+            // Fill in fields added since the settings were saved
+            const parsed = { ...FACTORY_DEFAULTS, ...JSON.parse(savedCurrent) };
             // Replace current state with loaded state
             setSettings(parsed);
             lastDrawSettings.current = parsed;
         } catch(e) {}
     }
+
+    loadUserFonts().then(fonts => {
+      setUserFonts(fonts);
+      setFontsVersion(v => v + 1);
+    });
   }, []);
 
   // 2. Sync Current Settings to LocalStorage & Ref
@@ -106,12 +161,27 @@ const App: React.FC = () => {
     }
   }, [settings, mode]);
 
+  // 3. Typography edits go to the selected text block, which re-renders alone
+  useEffect(() => {
+    if (mode !== AppMode.GENERATE || !selectedBlockId) return;
+    setTextBlocks(prev => prev.some(b => b.id === selectedBlockId && b.settings !== settings)
+      ? prev.map(b => (b.id === selectedBlockId ? { ...b, settings } : b))
+      : prev);
+  }, [settings, selectedBlockId, mode]);
+
   // --- Core Actions ---
 
   // LOAD: Replaces current state with the Preset's state
   const handleLoadPreset = (preset: Preset) => {
     // Create a copy of the preset settings to avoid reference coupling
-    const loadedSettings = { ...preset.settings };
+    // (defaults first, so presets saved before newer fields still load completely)
+    // Presets from before seeds were saved keep the current one
+    const loadedSettings = {
+      ...FACTORY_DEFAULTS,
+      ...preset.settings,
+      seed: preset.settings.seed ?? settings.seed,
+      seedLocked: preset.settings.seedLocked ?? settings.seedLocked
+    };
     setSettings(loadedSettings);
     
     // Update the ref immediately to ensure persistence
@@ -151,26 +221,108 @@ const App: React.FC = () => {
     });
   };
 
+  const handlePressureProfilesChange = (profiles: PressureProfiles) => {
+    setPressureProfiles(profiles);
+    savePressureProfiles(profiles);
+  };
+
+  const handleAddFont = async (file: File) => {
+    try {
+      const font = await addUserFont(file);
+      setUserFonts(prev => [...prev, font]);
+      setFontsVersion(v => v + 1);
+      setSettings(prev => ({ ...prev, fontStyle: 'CUSTOM', customFontId: font.id }));
+    } catch (e) {
+      console.error("Failed to add font", e);
+      alert("글꼴 파일을 읽을 수 없습니다. TTF, OTF, WOFF, WOFF2 파일인지 확인해 주세요.");
+    }
+  };
+
+  const handleDeleteFont = (id: string) => {
+    setUserFonts(prev => prev.filter(f => f.id !== id));
+    // Other blocks keep the id; when next redrawn they use the default font and the panel flags it
+    if (settings.fontStyle === 'CUSTOM' && settings.customFontId === id) {
+      setSettings(prev => ({ ...prev, fontStyle: 'PEN', customFontId: null }));
+    }
+    deleteUserFont(id).catch(e => console.warn("Failed to delete font", e));
+  };
+
   const handleRandomize = () => {
-    const newSettings = generateRandomSettings(settings);
-    setSettings(newSettings);
+    // The dice roll follows from the seed, so a seed reproduces it
+    const seed = nextSeed(settings);
+    setSettings({ ...generateRandomSettings(settings, createRandom(seed)), seed });
   };
 
   const handleReset = () => {
-    setSettings({ ...FACTORY_DEFAULTS });
+    // The seed is not a brush setting to reset
+    setSettings({ ...FACTORY_DEFAULTS, seed: settings.seed, seedLocked: settings.seedLocked });
   };
   
+  const handleClear = () => {
+    setTriggerClear(true);
+    setTextBlocks([]);
+    setSelectedBlockId(null);
+  };
+
+  // Edits the selected block, or adds a new one (which becomes selected)
   const handleManualText = (text: string) => {
     if (!text && text !== '') return; 
-    setTextToRender(text);
+    if (selectedBlockId) {
+      setTextBlocks(prev => prev.map(b => (b.id === selectedBlockId ? { ...b, text } : b)));
+      return;
+    }
+
+    const seed = nextSeed(settings);
+    const blockSettings = seed === settings.seed ? settings : { ...settings, seed };
+    const block: TextBlock = {
+      id: Date.now().toString(),
+      text,
+      // The first block spans the canvas; later ones get a box of their own to move into place
+      box: textBlocks.length > 0 ? canvasRef.current?.createTextBox() ?? null : null,
+      settings: blockSettings
+    };
+    setTextBlocks(prev => [...prev, block]);
+    setSelectedBlockId(block.id);
+    setSettings(blockSettings);
+  };
+
+  const handleSelectBlock = (id: string | null) => {
+    setSelectedBlockId(id);
+    const block = textBlocks.find(b => b.id === id);
+    if (block) setSettings(block.settings);
   };
+
+  const handleDeleteBlock = (id: string) => {
+    setTextBlocks(prev => prev.filter(b => b.id !== id));
+    if (selectedBlockId === id) setSelectedBlockId(null);
+  };
+
+  const handleTextBlockBoxChange = (id: string, box: TextBox | null) => {
+    setTextBlocks(prev => prev.map(b => (b.id === id ? { ...b, box } : b)));
+  };
+
+  // Undo / redo hands back the text blocks of that history step
+  const handleTextBlocksRestore = (blocks: TextBlock[]) => {
+    setTextBlocks(blocks);
+    const selected = blocks.find(b => b.id === selectedBlockId);
+    if (!selected) {
+      setSelectedBlockId(null);
+    } else if (mode === AppMode.GENERATE) {
+      // Keep the panel showing the restored typography
+      setSettings(selected.settings);
+    }
+  };
+
+  const selectedBlock = textBlocks.find(b => b.id === selectedBlockId) ?? null;
   
   const handleMagicSettings = () => {
       if (mode !== AppMode.GENERATE) return;
-      const newParams = generateCreativeSettings(settings.fontStyle);
+      const seed = nextSeed(settings);
+      const newParams = generateCreativeSettings(settings.fontStyle, createRandom(seed));
       setSettings(prev => ({
           ...prev,
-          ...newParams
+          ...newParams,
+          seed
       }));
   };
 
@@ -178,7 +330,8 @@ const App: React.FC = () => {
     setMode(newMode);
     if (newMode === AppMode.GENERATE) {
          setTriggerClear(true);
-         setTextToRender(''); 
+         setTextBlocks([]);
+         setSelectedBlockId(null);
          
          // In Generate mode, we use specific defaults for text rendering
          setSettings(prev => ({
@@ -242,7 +395,7 @@ const App: React.FC = () => {
            </button>
            
            <button 
-             onClick={() => setTriggerClear(true)}
+             onClick={handleClear}
              className="w-10 h-10 bg-white/90 backdrop-blur-sm border border-stone-200 rounded-full flex items-center justify-center shadow-lg text-red-600 active:scale-95 transition-transform"
              aria-label="Clear Canvas"
            >
@@ -274,16 +427,50 @@ const App: React.FC = () => {
           mode={mode}
           viewState={viewState}
           onViewStateChange={setViewState}
-          textToRender={textToRender}
+          textBlocks={textBlocks}
+          selectedBlockId={selectedBlockId}
+          onSelectBlock={handleSelectBlock}
+          onTextBlockBoxChange={handleTextBlockBoxChange}
+          onTextBlocksChange={handleTextBlocksRestore}
+          isAdjusting={isAdjusting}
+          onFontStateChange={setFontState}
+          fontsVersion={fontsVersion}
           triggerClear={triggerClear}
           onClearComplete={() => setTriggerClear(false)}
           showGuides={showGuides}
+          onInkLevelChange={setInkLevel}
+          pressureProfiles={pressureProfiles}
+          onReplayChange={setIsReplaying}
         />
       </main>
 
       {/* User Guide Modal */}
       <UserGuide isOpen={isGuideOpen} onClose={() => setIsGuideOpen(false)} />
 
+      {/* Pressure Calibration Modal */}
+      <PressureCalibration
+        isOpen={isCalibrationOpen}
+        onClose={() => setIsCalibrationOpen(false)}
+        profiles={pressureProfiles}
+        onChange={handlePressureProfilesChange}
+      />
+
+      <PngExportDialog
+        isOpen={isPngExportOpen}
+        onClose={() => setIsPngExportOpen(false)}
+        options={pngExportOptions}
+        onOptionsChange={setPngExportOptions}
+        onExport={async (options) => canvasRef.current?.downloadPng(options)}
+      />
+
+      <PdfExportDialog
+        isOpen={isPdfExportOpen}
+        onClose={() => setIsPdfExportOpen(false)}
+        options={pdfExportOptions}
+        onOptionsChange={setPdfExportOptions}
+        onExport={(options) => canvasRef.current?.downloadPdf(options)}
+      />
+
       {/* Controls */}
       <ControlPanel
         isOpen={isMobileMenuOpen}
@@ -292,14 +479,34 @@ const App: React.FC = () => {
         onSettingsChange={setSettings}
         viewState={viewState}
         onViewStateChange={setViewState}
-        onClear={() => setTriggerClear(true)}
-        onDownloadPng={() => canvasRef.current?.downloadPng()}
-        onDownloadSvg={() => canvasRef.current?.downloadSvg()}
+        onClear={handleClear}
+        onDownloadPng={() => setIsPngExportOpen(true)}
+        onDownloadSvg={(options) => canvasRef.current?.downloadSvg(options)}
+        onDownloadPdf={() => setIsPdfExportOpen(true)}
+        isReplaying={isReplaying}
+        onReplay={(speed) => canvasRef.current?.replay(speed)}
+        onStopReplay={() => canvasRef.current?.stopReplay()}
+        onExportReplay={async (format, speed, onProgress) => canvasRef.current?.exportReplay(format, speed, onProgress)}
         onUndo={() => canvasRef.current?.undo()}
         onRedo={() => canvasRef.current?.redo()}
+        inkLevel={inkLevel}
+        onRedip={() => canvasRef.current?.redip()}
         mode={mode}
         onModeChange={handleModeChange}
         onManualTextSubmit={handleManualText}
+        textBlocks={textBlocks}
+        selectedBlockId={selectedBlockId}
+        onSelectBlock={handleSelectBlock}
+        onDeleteBlock={handleDeleteBlock}
+        hasTextBox={!!selectedBlock?.box}
+        onToggleTextBox={() => {
+          if (!selectedBlock) return;
+          handleTextBlockBoxChange(selectedBlock.id, selectedBlock.box ? null : canvasRef.current?.createTextBox() ?? null);
+        }}
+        userFonts={userFonts}
+        fontState={fontState}
+        onAddFont={handleAddFont}
+        onDeleteFont={handleDeleteFont}
         
         presets={presets}
         onLoadPreset={handleLoadPreset}
@@ -311,8 +518,10 @@ const App: React.FC = () => {
         showGuides={showGuides}
         onToggleGuides={() => setShowGuides(!showGuides)}
         onOpenGuide={() => setIsGuideOpen(true)}
+        onOpenCalibration={() => setIsCalibrationOpen(true)}
         
         onMagic={handleMagicSettings}
+        onAdjustingChange={setIsAdjusting}
       />
     </div>
   );
@@ -1,12 +1,34 @@
 import React, { useRef, useEffect, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { BrushSettings, Point, AppMode, ViewState } from '../types';
-import { calculateBrushPhysics } from '../utils/brushPhysics';
+import { BrushSettings, Point, AppMode, ViewState, Stroke, PressureProfiles, SvgExportOptions, PngExportOptions, PdfExportOptions, TextBox, TextBlock, FontLoadStatus, FontLoadState } from '../types';
+import { drawSmoothedSegment, drawStrokeEnd, renderStrokes, renderStrokesSvg, createStrokeRenderState, StrokeRenderState } from '../utils/strokeRenderer';
+import { drawEllipseStamp } from '../utils/stamp';
+import { drawInkBleed, getBleedAmount } from '../utils/inkBleed';
+import { mixInk } from '../utils/ink';
+import { createRandom, deriveSeed, formatSeed } from '../utils/random';
+import { createStabilizer, Stabilizer } from '../utils/stabilizer';
+import { toPointerKind } from '../utils/pressureCurve';
+import { renderStrokeOutlines, renderOutlineShape, traceCanvasContours, traceStrokeOutlines, OutlineShape } from '../utils/outline';
+import { createPdf, DEFAULT_PDF_EXPORT_OPTIONS } from '../utils/pdfExport';
+import { createReplayRenderer } from '../utils/replay';
+import { scanTextParticles } from '../utils/textParticleScan';
+import { getTextFont, isTextFontReady, loadTextFont } from '../utils/textFonts';
+import { drawTextGlyphs } from '../utils/textGlyphs';
+import { getColumnCenters } from '../utils/verticalText';
+import { canRecordVideo, exportReplayGif, recordReplayWebm, ReplayExportFormat } from '../utils/replayExport';
+import { DEFAULT_PNG_EXPORT_OPTIONS, renderPngExport } from '../utils/pngExport';
+import TextBoxOverlay from './TextBoxOverlay';
 
 export interface CalligraphyCanvasHandle {
-  downloadPng: () => void;
-  downloadSvg: () => void;
+  downloadPng: (options?: PngExportOptions) => Promise<void>;
+  downloadSvg: (options?: SvgExportOptions) => void;
+  downloadPdf: (options?: PdfExportOptions) => void;
   undo: () => void;
   redo: () => void;
+  redip: () => void;
+  replay: (speed: number) => void;
+  stopReplay: () => void;
+  createTextBox: () => TextBox;
+  exportReplay: (format: ReplayExportFormat, speed: number, onProgress?: (progress: number) => void) => Promise<void>;
 }
 
 interface CalligraphyCanvasProps {
@@ -14,14 +36,73 @@ interface CalligraphyCanvasProps {
   mode: AppMode;
   viewState: ViewState;
   onViewStateChange: (newState: ViewState) => void;
-  textToRender: string;
+  textBlocks: TextBlock[];
+  selectedBlockId: string | null;
+  onSelectBlock: (id: string) => void;
+  onTextBlockBoxChange: (id: string, box: TextBox) => void;
   triggerClear: boolean;
   onClearComplete: () => void;
   showGuides: boolean;
+  onInkLevelChange?: (level: number) => void;
+  pressureProfiles: PressureProfiles;
+  onReplayChange?: (isReplaying: boolean) => void;
+  onTextBlocksChange?: (blocks: TextBlock[]) => void; // Undo / redo restoring the text of a step
+  isAdjusting?: boolean; // A slider is held: typography edits show a quick preview until it is let go
+  onFontStateChange?: (state: FontLoadState) => void;
+  fontsVersion?: number; // Bumped when fonts are registered, so blocks that missed their font try again
+}
+
+// A text block rendered on its own, so it can be redrawn without touching the others
+interface TextLayer {
+  block: TextBlock;
+  canvas: HTMLCanvasElement;
+  svg: string[];
+  frame: number | null;
+  cancelScan: (() => void) | null; // Drops the particle scan still running for it
+  preview: boolean; // Flat glyphs standing in until the particle render
 }
 
 const CANVAS_SCALE = 1;
-const MAX_HISTORY = 20;
+
+// Consecutive edits to one block's typography within this window are one undo step
+const TEXT_EDIT_MERGE_MS = 1000;
+
+// Typography edits and box moves are previewed right away and rendered in full once they stop for this long
+const TEXT_PREVIEW_SETTLE_MS = 250;
+
+// Settings generated text is drawn with; brush-only ones (size, taper, ...) leave it alone
+const TEXT_RENDER_SETTINGS: (keyof BrushSettings)[] = [
+  'fontStyle', 'customFontId', 'weightOption', 'fontSize', 'fitToBox', 'letterSpacing', 'lineHeight', 'slant',
+  'writingDirection', 'textAlign', 'textReveal', 'seed', 'color', 'concentration', 'absorbency', 'wetness'
+];
+
+const isSameBlockList = (a: TextBlock[], b: TextBlock[]) =>
+  a.length === b.length && a.every((block, i) => block === b[i]);
+
+const isSameTextRender = (a: TextBlock, b: TextBlock) =>
+  a.text === b.text && a.box === b.box && TEXT_RENDER_SETTINGS.every(key => a.settings[key] === b.settings[key]);
+
+// Identifies a change that only touched the settings of a single block (a slider
+// drag, a style pick), so a run of them can share one history step
+const getSettingsEditKey = (prev: TextBlock[], next: TextBlock[]): string | undefined => {
+  if (prev.length !== next.length) return undefined;
+  const changed = next.filter((block, i) => block !== prev[i]);
+  if (changed.length !== 1) return undefined;
+
+  const before = prev.find(b => b.id === changed[0].id);
+  if (!before || before.text !== changed[0].text || before.box !== changed[0].box) return undefined;
+  return `settings:${changed[0].id}`;
+};
+
+// Mice and fingers have no real pressure; calculateBrushPhysics then derives
+// it from velocity through the device's calibrated curve
+const NO_PRESSURE = -1;
+
+// A pen resting on the paper sends no events. Once the pointer has been still
+// this long, its position is fed again with the current time so the resting
+// brush keeps pooling ink; the repeats are recorded in the stroke, so replay
+// and export pool the same way.
+const DWELL_INTERVAL_MS = 100;
 
 // Helper to get distance between two points (used for gesture simulation)
 const getDistance = (p1: { x: number, y: number }, p2: { x: number, y: number }) => {
@@ -30,6 +111,14 @@ const getDistance = (p1: { x: number, y: number }, p2: { x: number, y: number })
   return Math.sqrt(dx * dx + dy * dy);
 };
 
+// Helper to read stylus tilt/twist. Mice and fingers report zeros, which we
+// treat as "no data" so the brush falls back to the configured angle.
+const getStylusOrientation = (ev: { pointerType: string; tiltX: number; tiltY: number; twist: number }): Partial<Point> => {
+  if (ev.pointerType !== 'pen') return {};
+  if (!ev.tiltX && !ev.tiltY && !ev.twist) return {};
+  return { tiltX: ev.tiltX, tiltY: ev.tiltY, twist: ev.twist };
+};
+
 // Helper to get center point
 const getCenter = (p1: { x: number, y: number }, p2: { x: number, y: number }) => {
   return {
@@ -43,10 +132,20 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
   mode,
   viewState,
   onViewStateChange,
-  textToRender,
+  textBlocks,
+  selectedBlockId,
+  onSelectBlock,
+  onTextBlockBoxChange,
   triggerClear,
   onClearComplete,
-  showGuides
+  showGuides,
+  onInkLevelChange,
+  pressureProfiles,
+  onReplayChange,
+  onTextBlocksChange,
+  isAdjusting = false,
+  onFontStateChange,
+  fontsVersion = 0
 }, ref) => {
   // Layer 0: Guides (Bottom)
   const guideCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -56,7 +155,6 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
   const drawingCanvasRef = useRef<HTMLCanvasElement>(null);
   
   const containerRef = useRef<HTMLDivElement>(null);
-  const bufferCanvasRef = useRef<HTMLCanvasElement | null>(null);
   
   // Track active pointers for multi-touch gestures using PointerEvents
   const activePointers = useRef<Map<number, PointerEvent>>(new Map());
@@ -64,7 +162,11 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
   // Drawing state
   const isDrawingRef = useRef(false);
   const lastPointRef = useRef<Point | null>(null);
-  const animationFrameIdRef = useRef<number | null>(null);
+  const activeStrokeRef = useRef<Stroke | null>(null);
+  const strokeStateRef = useRef<StrokeRenderState | null>(null);
+  const stabilizerRef = useRef<Stabilizer | null>(null);
+  const lastInputRef = useRef<Point | null>(null); // Raw pointer position, before the stabilizer
+  const dwellTimerRef = useRef<number | null>(null);
   
   // Stylus / Palm Rejection State
   const isPenRef = useRef(false);
@@ -74,106 +176,202 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
   const lastCenterRef = useRef<{x: number, y: number} | null>(null);
   const isGesturingRef = useRef<boolean>(false);
   
-  // Recorders for SVG paths
-  const textSvgRef = useRef<string[]>([]);
-  const drawingSvgRef = useRef<string[]>([]);
+  // Generated text, one layer per block (hand-drawn strokes are exported from the document)
+  const textLayersRef = useRef(new Map<string, TextLayer>());
+  const textBlocksRef = useRef<TextBlock[]>(textBlocks);
+  textBlocksRef.current = textBlocks;
+
+  // Draws the block layers onto the text canvas, in block order
+  const compositeTextLayers = useCallback(() => {
+    const canvas = textCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr);
+    textBlocksRef.current.forEach(block => {
+      const layer = textLayersRef.current.get(block.id);
+      // At the layer's own size: a layer rendered before a resize is not stretched
+      if (layer) ctx.drawImage(layer.canvas, 0, 0, layer.canvas.width / dpr, layer.canvas.height / dpr);
+    });
+  }, []);
+
+  const removeTextLayer = useCallback((id: string) => {
+    const layer = textLayersRef.current.get(id);
+    if (layer?.frame) cancelAnimationFrame(layer.frame);
+    layer?.cancelScan?.();
+    textLayersRef.current.delete(id);
+  }, []);
+
+  // SVG particles of every block, bottom block first
+  const getTextSvg = () => textBlocksRef.current.flatMap(block => textLayersRef.current.get(block.id)?.svg ?? []);
+
+  // Vector outlines of every block in its own ink color
+  const traceTextShapes = (tolerance: number): OutlineShape[] => {
+    const dpr = window.devicePixelRatio || 1;
+    const shapes: OutlineShape[] = [];
+    textBlocksRef.current.forEach(block => {
+      const layer = textLayersRef.current.get(block.id);
+      if (!layer) return;
+      const contours = traceCanvasContours(layer.canvas, dpr, tolerance);
+      if (contours.length > 0) {
+        const ink = mixInk(block.settings.color, block.settings.concentration);
+        shapes.push({ color: ink.color, opacity: ink.alpha, contours });
+      }
+    });
+    return shapes;
+  };
+
+  // Ink left in the brush. Carries over between strokes until re-dipped.
+  const inkLevelRef = useRef<number>(settings.inkLoad);
+
+  const performRedip = useCallback(() => {
+    inkLevelRef.current = settings.inkLoad;
+    onInkLevelChange?.(settings.inkLoad);
+  }, [settings.inkLoad, onInkLevelChange]);
+
+  // Changing the load is dipping the brush to that amount
+  useEffect(() => {
+    performRedip();
+  }, [performRedip]);
 
   // --- History State for Undo/Redo ---
+  // Each step is the full stroke list and text block list at that point. Steps
+  // share Stroke and TextBlock objects, so a step only costs two arrays of
+  // references and history can be unlimited.
   type HistoryStep = {
-    imageData: ImageData;
-    svgPaths: string[];
+    strokes: Stroke[];
+    textBlocks: TextBlock[];
+    mergeKey?: string; // Set on typography edits that later edits may fold into
+    time?: number;
   };
-  const historyRef = useRef<HistoryStep[]>([]);
-  const historyStepIndexRef = useRef<number>(-1);
+  const historyRef = useRef<HistoryStep[]>([{ strokes: [], textBlocks: [] }]);
+  const historyStepIndexRef = useRef<number>(0);
+
+  const getCurrentStrokes = useCallback(() => {
+    return historyRef.current[historyStepIndexRef.current]?.strokes || [];
+  }, []);
+
+  // --- Replay ---
+  // The drawing layer is redrawn stroke by stroke at the recorded pace
+  const replayFrameRef = useRef<number | null>(null);
+
+  const cancelReplay = useCallback(() => {
+    if (replayFrameRef.current === null) return;
+    cancelAnimationFrame(replayFrameRef.current);
+    replayFrameRef.current = null;
+    onReplayChange?.(false);
+  }, [onReplayChange]);
+
+  // Re-renders the drawing layer from the stroke document (ending any replay)
+  const redrawDrawingLayer = useCallback(() => {
+    cancelReplay();
 
-  const saveHistory = useCallback(() => {
     const canvas = drawingCanvasRef.current;
-    if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr);
+    renderStrokes({ ctx }, getCurrentStrokes());
+  }, [cancelReplay, getCurrentStrokes]);
+
+  const performReplay = useCallback((speed: number) => {
+    const canvas = drawingCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
 
+    cancelReplay();
+    const dpr = window.devicePixelRatio || 1;
+    ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr);
+
+    const renderer = createReplayRenderer({ ctx }, getCurrentStrokes());
+    const start = performance.now();
+    const tick = (now: number) => {
+      if (renderer.advanceTo((now - start) * speed)) {
+        replayFrameRef.current = null;
+        onReplayChange?.(false);
+        return;
+      }
+      replayFrameRef.current = requestAnimationFrame(tick);
+    };
+
+    replayFrameRef.current = requestAnimationFrame(tick);
+    onReplayChange?.(true);
+  }, [cancelReplay, getCurrentStrokes, onReplayChange]);
+
+  const pushHistory = useCallback((step: HistoryStep) => {
     if (historyStepIndexRef.current < historyRef.current.length - 1) {
       historyRef.current = historyRef.current.slice(0, historyStepIndexRef.current + 1);
     }
 
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const svgPaths = [...drawingSvgRef.current]; 
-
-    historyRef.current.push({ imageData, svgPaths });
-    
-    if (historyRef.current.length > MAX_HISTORY) {
-      historyRef.current.shift();
-    } else {
-      historyStepIndexRef.current++;
-    }
+    historyRef.current.push(step);
+    historyStepIndexRef.current++;
   }, []);
 
+  const saveHistory = useCallback((strokes: Stroke[]) => {
+    const current = historyRef.current[historyStepIndexRef.current];
+    pushHistory({ strokes, textBlocks: current?.textBlocks ?? [] });
+  }, [pushHistory]);
+
+  // Moves to another step: strokes are redrawn here, text goes back to the owner of the blocks
+  const restoreHistoryStep = useCallback((index: number) => {
+    historyStepIndexRef.current = index;
+    redrawDrawingLayer();
+
+    const { textBlocks: blocks } = historyRef.current[index];
+    if (!isSameBlockList(blocks, textBlocksRef.current)) onTextBlocksChange?.(blocks);
+  }, [redrawDrawingLayer, onTextBlocksChange]);
+
   const performUndo = useCallback(() => {
     if (historyStepIndexRef.current > 0) {
-      historyStepIndexRef.current--;
-      const step = historyRef.current[historyStepIndexRef.current];
-      
-      const canvas = drawingCanvasRef.current;
-      const ctx = canvas?.getContext('2d');
-      if (canvas && ctx && step) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height); // Clear before restore to handle transparency
-        ctx.putImageData(step.imageData, 0, 0);
-        drawingSvgRef.current = [...step.svgPaths];
-      }
+      restoreHistoryStep(historyStepIndexRef.current - 1);
     }
-  }, []);
+  }, [restoreHistoryStep]);
 
   const performRedo = useCallback(() => {
     if (historyStepIndexRef.current < historyRef.current.length - 1) {
-      historyStepIndexRef.current++;
-      const step = historyRef.current[historyStepIndexRef.current];
-      
-      const canvas = drawingCanvasRef.current;
-      const ctx = canvas?.getContext('2d');
-      if (canvas && ctx && step) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.putImageData(step.imageData, 0, 0);
-        drawingSvgRef.current = [...step.svgPaths];
-      }
+      restoreHistoryStep(historyStepIndexRef.current + 1);
     }
-  }, []);
+  }, [restoreHistoryStep]);
 
   useImperativeHandle(ref, () => ({
-    downloadPng: () => {
+    downloadPng: async (options: PngExportOptions = DEFAULT_PNG_EXPORT_OPTIONS) => {
       const dCanvas = drawingCanvasRef.current;
       const tCanvas = textCanvasRef.current;
       if (!dCanvas || !tCanvas) return;
 
       try {
         const timestamp = Date.now();
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = dCanvas.width;
-        tempCanvas.height = dCanvas.height;
-        const ctx = tempCanvas.getContext('2d');
-        if (!ctx) return;
-        
-        // Fill background first to ensure opacity works
-        ctx.fillStyle = '#fdfbf7'; 
-        ctx.fillRect(0, 0, tempCanvas.width, tempCanvas.height);
-        
-        ctx.drawImage(tCanvas, 0, 0);
-        ctx.drawImage(dCanvas, 0, 0);
+        const dpr = window.devicePixelRatio || 1;
+        const output = await renderPngExport({
+          strokes: getCurrentStrokes(),
+          textSvg: getTextSvg(),
+          width: dCanvas.width / dpr,
+          height: dCanvas.height / dpr,
+          layers: [tCanvas, dCanvas],
+          dpr
+        }, options);
         
-        const pngUrl = tempCanvas.toDataURL('image/png');
+        // Print-size images are too large for a data URL
+        const blob = await new Promise<Blob | null>(resolve => output.toBlob(resolve, 'image/png'));
+        if (!blob) throw new Error('PNG encoding failed');
+        const url = URL.createObjectURL(blob);
         
         const pngLink = document.createElement('a');
-        pngLink.download = `seoye-art-${timestamp}.png`;
-        pngLink.href = pngUrl;
+        pngLink.download = `seoye-art-${formatSeed(settings.seed)}-${timestamp}.png`;
+        pngLink.href = url;
         document.body.appendChild(pngLink);
         pngLink.click();
         document.body.removeChild(pngLink);
+
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
       } catch (error) {
         console.error("PNG Download failed:", error);
         alert("이미지 저장 중 오류가 발생했습니다.");
       }
     },
-    downloadSvg: () => {
+    downloadSvg: (options: SvgExportOptions = { mode: 'PARTICLES', tolerance: 0 }) => {
       const canvas = drawingCanvasRef.current;
       if (!canvas) return;
 
@@ -183,15 +381,25 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
         const width = canvas.width / dpr;
         const height = canvas.height / dpr;
         
-        const svgHeader = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}px" height="${height}px">`;
+        // The seed travels with the file so the artwork can be rendered again
+        const svgHeader = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}px" height="${height}px" data-seoye-seed="${formatSeed(settings.seed)}">`;
         const svgFooter = `</svg>`;
-        const svgContent = [...textSvgRef.current, ...drawingSvgRef.current].join('\n');
+        let svgContent: string;
+
+        if (options.mode === 'OUTLINE') {
+          // Clean vectors for plotters and cutters: merged, simplified outlines
+          const textSvg = traceTextShapes(options.tolerance).map(renderOutlineShape);
+          svgContent = [...textSvg, ...renderStrokeOutlines(getCurrentStrokes(), options.tolerance)].join('\n');
+        } else {
+          const drawingSvg = renderStrokesSvg(getCurrentStrokes(), width, height);
+          svgContent = [...getTextSvg(), ...drawingSvg].join('\n');
+        }
         
         const blob = new Blob([svgHeader, svgContent, svgFooter], { type: 'image/svg+xml' });
         const url = URL.createObjectURL(blob);
         
         const svgLink = document.createElement('a');
-        svgLink.download = `seoye-art-${timestamp}.svg`;
+        svgLink.download = `seoye-art-${formatSeed(settings.seed)}-${timestamp}.svg`;
         svgLink.href = url;
         document.body.appendChild(svgLink);
         svgLink.click();
@@ -203,8 +411,82 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
         alert("SVG 저장 중 오류가 발생했습니다.");
       }
     },
+    downloadPdf: (options: PdfExportOptions = DEFAULT_PDF_EXPORT_OPTIONS) => {
+      try {
+        const timestamp = Date.now();
+
+        // Vector outlines of the text and every stroke, no bitmap
+        const shapes = [...traceTextShapes(0.25), ...traceStrokeOutlines(getCurrentStrokes(), 0.25)];
+
+        const url = URL.createObjectURL(createPdf(shapes, options, `seed ${formatSeed(settings.seed)}`));
+
+        const pdfLink = document.createElement('a');
+        pdfLink.download = `seoye-art-${formatSeed(settings.seed)}-${timestamp}.pdf`;
+        pdfLink.href = url;
+        document.body.appendChild(pdfLink);
+        pdfLink.click();
+        document.body.removeChild(pdfLink);
+
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+      } catch (error) {
+        console.error("PDF Download failed:", error);
+        alert("PDF 저장 중 오류가 발생했습니다.");
+      }
+    },
+    exportReplay: async (format: ReplayExportFormat, speed: number, onProgress?: (progress: number) => void) => {
+      const dCanvas = drawingCanvasRef.current;
+      const tCanvas = textCanvasRef.current;
+      if (!dCanvas) return;
+
+      if (format === 'WEBM' && !canRecordVideo()) {
+        alert("이 브라우저에서는 WebM 영상 저장을 지원하지 않습니다.");
+        return;
+      }
+
+      try {
+        const timestamp = Date.now();
+        const dpr = window.devicePixelRatio || 1;
+        const source = {
+          strokes: getCurrentStrokes(),
+          background: tCanvas ? [tCanvas] : [],
+          width: dCanvas.width / dpr,
+          height: dCanvas.height / dpr
+        };
+        const blob = format === 'GIF'
+          ? await exportReplayGif(source, speed, onProgress)
+          : await recordReplayWebm(source, speed, onProgress);
+        const url = URL.createObjectURL(blob);
+
+        const link = document.createElement('a');
+        link.download = `seoye-replay-${timestamp}.${format === 'GIF' ? 'gif' : 'webm'}`;
+        link.href = url;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+      } catch (error) {
+        console.error("Replay export failed:", error);
+        alert(format === 'GIF' ? "GIF 저장 중 오류가 발생했습니다." : "영상 저장 중 오류가 발생했습니다.");
+      }
+    },
+    // A box in the middle of what is currently on screen
+    createTextBox: () => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      const width = (rect?.width ?? 800) / viewState.scale;
+      const height = (rect?.height ?? 600) / viewState.scale;
+      return {
+        x: -viewState.offset.x / viewState.scale + width * 0.2,
+        y: -viewState.offset.y / viewState.scale + height * 0.3,
+        width: width * 0.6,
+        height: height * 0.4
+      };
+    },
     undo: performUndo,
-    redo: performRedo
+    redo: performRedo,
+    redip: performRedip,
+    replay: performReplay,
+    stopReplay: redrawDrawingLayer
   }));
 
   // Helper: Get coordinate in Canvas space
@@ -225,54 +507,14 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
     return { x, y };
   }, []);
 
-  const drawAndRecordEllipse = useCallback((
-    ctx: CanvasRenderingContext2D, 
-    svgRef: React.MutableRefObject<string[]>,
-    x: number, 
-    y: number, 
-    rx: number, 
-    ry: number, 
-    rotation: number, 
-    color: string, 
-    opacity: number,
-    isEraser: boolean = false
-  ) => {
-    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(rx) || !Number.isFinite(ry)) return;
-
-    ctx.beginPath();
-    ctx.globalAlpha = opacity;
-    ctx.fillStyle = color;
-    ctx.ellipse(x, y, rx, ry, rotation, 0, Math.PI * 2);
-    ctx.fill();
-
-    // Eraser drawing shouldn't add to SVG paths usually, or should add mask. 
-    // For simplicity, we skip adding eraser paths to SVG to avoid white blobs on transparent SVG export
-    if (!isEraser) {
-        const cx = x.toFixed(1);
-        const cy = y.toFixed(1);
-        const rX = rx.toFixed(1);
-        const rY = ry.toFixed(1);
-        const rotDeg = ((rotation * 180) / Math.PI).toFixed(1);
-        const op = opacity.toFixed(2);
-        
-        const svgEl = `<ellipse cx="${cx}" cy="${cy}" rx="${rX}" ry="${rY}" transform="rotate(${rotDeg} ${cx} ${cy})" fill="${color}" fill-opacity="${op}" />`;
-        svgRef.current.push(svgEl);
-    }
-  }, []);
-  
   // Initialize Canvases
   useEffect(() => {
     const dpr = window.devicePixelRatio || 1;
     const container = containerRef.current;
     if (!container) return;
-    
-    // Create buffer canvas if it doesn't exist
-    if (!bufferCanvasRef.current) {
-        bufferCanvasRef.current = document.createElement('canvas');
-    }
 
     // Helper to resize canvas
-    const resizeLayer = (ref: React.RefObject<HTMLCanvasElement | null>, saveContent: boolean = false) => {
+    const resizeLayer = (ref: React.RefObject<HTMLCanvasElement | null>) => {
         const canvas = ref.current;
         if (!canvas) return;
 
@@ -283,15 +525,6 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
         // If dimensions haven't changed, skip
         if (canvas.width === w * dpr && canvas.height === h * dpr) return;
 
-        let savedData: ImageData | null = null;
-        if (saveContent) {
-            const ctx = canvas.getContext('2d');
-            try {
-                // Save existing content before resize
-                savedData = ctx?.getImageData(0, 0, canvas.width, canvas.height) || null;
-            } catch(e) {}
-        }
-
         canvas.width = w * dpr;
         canvas.height = h * dpr;
         
@@ -300,41 +533,21 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
              ctx.scale(dpr, dpr);
              ctx.lineCap = 'round';
              ctx.lineJoin = 'round';
-
-             if (savedData) {
-                 ctx.putImageData(savedData, 0, 0);
-             }
         }
     };
 
     const handleResize = () => {
         resizeLayer(guideCanvasRef);
         resizeLayer(textCanvasRef);
-        resizeLayer(drawingCanvasRef, true);
-        
-        // Resize buffer as well
-        if (bufferCanvasRef.current) {
-            const rect = container.getBoundingClientRect();
-            bufferCanvasRef.current.width = rect.width * CANVAS_SCALE * dpr;
-            bufferCanvasRef.current.height = rect.height * CANVAS_SCALE * dpr;
-        }
+        resizeLayer(drawingCanvasRef);
+        // Resizing wipes the canvas, so re-render the strokes at the new resolution
+        redrawDrawingLayer();
+        compositeTextLayers();
     };
     
     // Initial Setup
     handleResize();
 
-    // Initial History Setup
-    const dCanvas = drawingCanvasRef.current;
-    if (dCanvas) {
-         const ctx = dCanvas.getContext('2d');
-         if (ctx && historyRef.current.length === 0) {
-             // Save initial blank state only if history is empty
-             const initialImageData = ctx.getImageData(0, 0, dCanvas.width, dCanvas.height);
-             historyRef.current = [{ imageData: initialImageData, svgPaths: [] }];
-             historyStepIndexRef.current = 0;
-         }
-    }
-
     const resizeObserver = new ResizeObserver(() => {
         handleResize();
     });
@@ -344,7 +557,7 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
     return () => {
         resizeObserver.disconnect();
     };
-  }, []);
+  }, [redrawDrawingLayer, compositeTextLayers]);
 
   // --- Render Guides ---
   useEffect(() => {
@@ -364,11 +577,36 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
     const width = canvas.width / dpr;
     const height = canvas.height / dpr;
     
+    ctx.lineWidth = 1;
+
+    if (settings.writingDirection === 'VERTICAL') {
+      // As many columns as fit, at the pitch and centring vertical text is set
+      // with across the canvas, each with its centre axis and em box sides
+      const pitch = fontSize * (settings.lineHeight || 1.2);
+      const page = { left: 0, top: 0, width, height };
+      getColumnCenters(page, Math.floor(width / pitch), pitch).forEach(centerX => {
+        ctx.beginPath();
+        ctx.strokeStyle = 'rgba(255, 100, 100, 0.4)';
+        ctx.setLineDash([]);
+        ctx.moveTo(centerX, 0);
+        ctx.lineTo(centerX, height);
+        ctx.stroke();
+
+        ctx.beginPath();
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.15)';
+        ctx.setLineDash([5, 5]);
+        ctx.moveTo(centerX - fontSize / 2, 0);
+        ctx.lineTo(centerX - fontSize / 2, height);
+        ctx.moveTo(centerX + fontSize / 2, 0);
+        ctx.lineTo(centerX + fontSize / 2, height);
+        ctx.stroke();
+      });
+      return;
+    }
+
     // Draw guides
     const gap = fontSize * 1.8; // Vertical gap between lines of text
     const startY = (height % gap) / 2; // Center vertically somewhat
-    
-    ctx.lineWidth = 1;
 
     for (let y = startY; y < height; y += gap) {
       // Baseline (Red, Solid)
@@ -408,82 +646,114 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
       ctx.lineTo(width, descY);
       ctx.stroke();
     }
-  }, [showGuides, settings.fontSize]);
+  }, [showGuides, settings.fontSize, settings.lineHeight, settings.writingDirection]);
 
 
   // Drawing Stroke Logic
   const drawStroke = useCallback((currentPoint: Point) => {
     const canvas = drawingCanvasRef.current;
     const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx || !lastPointRef.current) return;
+    const stroke = activeStrokeRef.current;
+    const state = strokeStateRef.current;
+    if (!canvas || !ctx || !lastPointRef.current || !stroke || !state) return;
+
+    stroke.points.push(currentPoint);
+    // The spline needs one point of look-ahead, so draw the segment that ends
+    // at the previous point. endStroke draws the final segment.
+    drawSmoothedSegment({ ctx }, stroke.points, stroke.points.length - 2, stroke.settings, state);
+  }, []);
 
-    const lastPoint = lastPointRef.current;
-    
-    let targetSize = settings.size;
-    let velocity = 0;
-    let dist = 0;
-    
-    if (settings.size > 1) {
-        const physics = calculateBrushPhysics(lastPoint, currentPoint, settings);
-        targetSize = physics.size;
-        velocity = physics.velocity;
-        dist = physics.dist;
-    } else {
-        dist = Math.sqrt(Math.pow(currentPoint.x - lastPoint.x, 2) + Math.pow(currentPoint.y - lastPoint.y, 2));
-        targetSize = settings.size === 0 ? 0.5 : settings.size;
-    }
+  // Starts a new stroke in the document with a snapshot of the current settings
+  const beginStroke = (startPoint: Point, pointerType: string) => {
+    // Strokes follow from the artwork seed in the order they are drawn
+    const seed = deriveSeed(settings.seed, getCurrentStrokes().length);
+    const stroke: Stroke = {
+      id: `${Date.now()}-${seed}`,
+      points: [startPoint],
+      settings: { ...settings },
+      seed,
+      ink: inkLevelRef.current,
+      pressureCurve: pressureProfiles[toPointerKind(pointerType)]
+    };
+    activeStrokeRef.current = stroke;
+    strokeStateRef.current = createStrokeRenderState(stroke);
+    stabilizerRef.current = createStabilizer(settings.stabilizer, settings.stabilizerStrength, startPoint);
+    lastPointRef.current = startPoint;
+    lastInputRef.current = startPoint;
+    stopDwellTimer();
+    dwellTimerRef.current = window.setInterval(feedDwell, DWELL_INTERVAL_MS);
+  };
 
-    const angle = Math.atan2(currentPoint.y - lastPoint.y, currentPoint.x - lastPoint.x);
-    const baseStep = Math.max(0.5, targetSize * 0.05); 
-    const spacingFactor = settings.spacing * targetSize * 1.5;
-    const stepSize = baseStep + spacingFactor;
-    
-    const steps = Math.ceil(dist / stepSize);
-    const brushAngleRad = settings.angle * (Math.PI / 180);
-    const blurAmount = (settings.hardness >= 0.95 || settings.size <= 1) ? 0 : targetSize * (1 - settings.hardness);
+  const stopDwellTimer = () => {
+    if (dwellTimerRef.current !== null) clearInterval(dwellTimerRef.current);
+    dwellTimerRef.current = null;
+  };
 
-    // ERASER LOGIC: Use destination-out composite op
-    ctx.globalCompositeOperation = settings.isEraser ? 'destination-out' : 'source-over';
+  // Feeds a raw pointer point through the stabilizer into the stroke
+  const drawInputPoint = (point: Point) => {
+    lastInputRef.current = point;
+    const brushPoints = stabilizerRef.current ? stabilizerRef.current.push(point) : [point];
+    drawStabilizedPoints(brushPoints);
+    return brushPoints.length > 0;
+  };
 
-    if (!settings.isEraser) {
-        ctx.shadowBlur = blurAmount;
-        ctx.shadowColor = settings.color;
-    } else {
-        ctx.shadowBlur = 0;
+  // Repeats the resting pointer position (see DWELL_INTERVAL_MS)
+  const feedDwell = () => {
+    const input = lastInputRef.current;
+    const brush = lastPointRef.current;
+    if (!isDrawingRef.current || !activeStrokeRef.current || !input || !brush) return;
+
+    const now = performance.now();
+    if (now - input.time < DWELL_INTERVAL_MS) return;
+
+    // A rope stabilizer holds the brush still while the pointer is within reach,
+    // so the brush rests where it is
+    if (!drawInputPoint({ ...input, time: now })) {
+      drawStabilizedPoints([{ ...brush, time: now }]);
     }
+  };
 
-    for (let i = 0; i < steps; i++) {
-      const t = i / steps;
-      const x = lastPoint.x + (currentPoint.x - lastPoint.x) * t;
-      const y = lastPoint.y + (currentPoint.y - lastPoint.y) * t;
+  // Runs stabilized brush points through the stroke pipeline
+  const drawStabilizedPoints = (points: Point[]) => {
+    for (const point of points) {
+      if (lastPointRef.current) {
+        drawStroke(point);
+      }
+      lastPointRef.current = point;
+    }
+  };
 
-      const roughnessThreshold = Math.random();
-      const dryBrushFactor = (velocity * settings.roughness) / 5; 
+  const endStroke = () => {
+    stopDwellTimer();
+    if (stabilizerRef.current) {
+      drawStabilizedPoints(stabilizerRef.current.finish());
+    }
 
-      if (settings.size > 1 && roughnessThreshold < dryBrushFactor && !settings.isEraser) continue;
+    const stroke = activeStrokeRef.current;
+    const state = strokeStateRef.current;
+    const ctx = drawingCanvasRef.current?.getContext('2d');
+    if (stroke && state && ctx) {
+      drawSmoothedSegment({ ctx }, stroke.points, stroke.points.length - 1, stroke.settings, state);
+      drawStrokeEnd({ ctx }, stroke.settings, state);
+    }
 
-      const radiusX = targetSize / 2;
-      const radiusY = (targetSize / 2) * settings.roundness;
-      const opacity = settings.size <= 1 ? 1.0 : 1.0;
-      
-      drawAndRecordEllipse(ctx, drawingSvgRef, x, y, radiusX, radiusY, brushAngleRad, settings.color, opacity, settings.isEraser);
-
-      if (settings.size > 1 && (opacity < 0.9 || settings.roughness > 0.2) && !settings.isEraser) {
-        for (let j = 0; j < 3; j++) {
-           const angleOffset = (Math.random() - 0.5) * Math.PI;
-           const distOffset = (Math.random() * targetSize) / 2;
-           const bx = x + Math.cos(brushAngleRad + angleOffset) * distOffset;
-           const by = y + Math.sin(brushAngleRad + angleOffset) * distOffset;
-           
-           drawAndRecordEllipse(ctx, drawingSvgRef, bx, by, radiusX * 0.3, radiusY * 0.3, brushAngleRad, settings.color, opacity * 0.4 * Math.random(), false);
-        }
-      }
+    // The brush keeps whatever ink is left for the next stroke
+    if (state) {
+      inkLevelRef.current = state.ink;
+      onInkLevelChange?.(state.ink);
     }
-    
-    ctx.shadowBlur = 0;
-    ctx.globalCompositeOperation = 'source-over'; // Reset
 
-  }, [settings, drawAndRecordEllipse]);
+    activeStrokeRef.current = null;
+    strokeStateRef.current = null;
+    stabilizerRef.current = null;
+    lastPointRef.current = null;
+    lastInputRef.current = null;
+
+    // A tap without movement renders nothing, so it is not worth a history step
+    if (stroke && stroke.points.length > 1) {
+      saveHistory([...getCurrentStrokes(), stroke]);
+    }
+  };
 
   const getCursorClass = () => settings.isEraser ? 'cursor-cell' : 'cursor-crosshair';
 
@@ -493,6 +763,9 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
     // Prevent default browser behavior (scroll, refresh, text selection)
     e.preventDefault();
 
+    // The canvas is read-only while a replay is running
+    if (replayFrameRef.current !== null) return;
+
     if (e.target instanceof Element) {
       e.target.setPointerCapture(e.pointerId);
     }
@@ -516,7 +789,7 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
         if (mode === AppMode.DRAW) {
              isDrawingRef.current = true;
              const pos = getCanvasPos(e.clientX, e.clientY);
-             lastPointRef.current = { ...pos, pressure: e.pressure, time: Date.now() };
+             beginStroke({ ...pos, pressure: e.pressure, time: e.timeStamp, ...getStylusOrientation(e) }, e.pointerType);
         }
         return;
     }
@@ -527,7 +800,12 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
     // 1. Gesture Start (Two fingers) - Only allowed if NOT using pen
     if (activePointers.current.size === 2 && !isPenRef.current) {
        isDrawingRef.current = false;
+       activeStrokeRef.current = null;
+       strokeStateRef.current = null;
+       stabilizerRef.current = null;
        lastPointRef.current = null;
+       lastInputRef.current = null;
+       stopDwellTimer();
        isGesturingRef.current = true;
        
        const pointers = Array.from(activePointers.current.values()) as PointerEvent[];
@@ -548,11 +826,7 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
       
       isDrawingRef.current = true;
       
-      let pressure = e.pressure;
-      // Default pressure for Mouse/Touch if 0
-      if (e.pointerType !== 'pen' && pressure === 0) pressure = 0.5;
-      
-      lastPointRef.current = { ...pos, pressure, time: Date.now() };
+      beginStroke({ ...pos, pressure: NO_PRESSURE, time: e.timeStamp }, e.pointerType);
     }
   };
 
@@ -610,17 +884,11 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
             if (isPenRef.current && ev.pointerType !== 'pen') continue;
 
             const pos = getCanvasPos(ev.clientX, ev.clientY);
-            let pressure = ev.pressure;
-            
-            if (ev.pointerType !== 'pen' && pressure === 0) pressure = 0.5;
+            const pressure = ev.pointerType === 'pen' ? ev.pressure : NO_PRESSURE;
 
-            const currentPoint = { ...pos, pressure, time: Date.now() };
-            
-            // Only draw if we have a last point
-            if (lastPointRef.current) {
-               drawStroke(currentPoint);
-            }
-            lastPointRef.current = currentPoint;
+            // Use each coalesced event's own timestamp; Date.now() would give a
+            // whole batch the same time and zero velocity
+            drawInputPoint({ ...pos, pressure, time: ev.timeStamp, ...getStylusOrientation(ev) });
         }
     }
   };
@@ -652,86 +920,73 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
 
     if (shouldStopDrawing) {
         isDrawingRef.current = false;
-        lastPointRef.current = null;
-        saveHistory();
+        endStroke();
     }
   };
 
-  // Text Rendering
-  const renderGenerativeText = useCallback((text: string) => {
-    const canvas = textCanvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx) return;
-
-    if (animationFrameIdRef.current) cancelAnimationFrame(animationFrameIdRef.current);
+  // Font each block is waiting on or failed to get, for the panel
+  const blockFontsRef = useRef(new Map<string, { status: FontLoadStatus; family: string }>());
+  const reportedFontStateRef = useRef('READY:');
+
+  const setBlockFont = useCallback((id: string, entry: { status: FontLoadStatus; family: string } | null) => {
+    if (entry) blockFontsRef.current.set(id, entry);
+    else blockFontsRef.current.delete(id);
+
+    const entries = Array.from(blockFontsRef.current.values());
+    const loading = entries.filter(e => e.status === 'LOADING');
+    const failed = entries.filter(e => e.status === 'ERROR');
+    const status: FontLoadStatus = loading.length > 0 ? 'LOADING' : failed.length > 0 ? 'ERROR' : 'READY';
+    const families = Array.from(new Set((loading.length > 0 ? loading : failed).map(e => e.family)));
+
+    const key = `${status}:${families.join(',')}`;
+    if (key === reportedFontStateRef.current) return;
+    reportedFontStateRef.current = key;
+    onFontStateChange?.({ status, families });
+  }, [onFontStateChange]);
+
+  // Text Rendering. With fallback, draws even though the font could not be loaded.
+  const renderTextBlock = useCallback((block: TextBlock, fallback = false) => {
+    const { settings } = block;
+    const textCanvas = textCanvasRef.current;
+    if (!textCanvas) return;
+
+    removeTextLayer(block.id);
+
+    // Same resolution as the text canvas
+    const canvas = document.createElement('canvas');
+    canvas.width = textCanvas.width;
+    canvas.height = textCanvas.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
 
     const dpr = window.devicePixelRatio || 1;
-    ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr);
-    textSvgRef.current = [];
-
-    const buffer = bufferCanvasRef.current;
-    const bCtx = buffer?.getContext('2d');
-    if (!buffer || !bCtx) return;
-    if (buffer.width === 0 || buffer.height === 0) return;
-
-    bCtx.clearRect(0, 0, buffer.width, buffer.height);
-    bCtx.fillStyle = 'black';
-    bCtx.textAlign = 'center';
-    bCtx.textBaseline = 'middle';
-    
-    let fontName = 'Nanum Pen Script';
-    const hasKorean = /[ㄱ-ㅎ|ㅏ-ㅣ|가-힣]/.test(text);
-
-    if (settings.fontStyle === 'HAND') {
-        fontName = hasKorean ? 'Hi Melody' : 'Dancing Script';
-    } else if (settings.fontStyle === 'PEN') {
-        fontName = 'Nanum Pen Script'; 
-    } else if (settings.fontStyle === 'BRUSH') {
-        fontName = 'Noto Serif KR';
-    }
-
-    const isCursive = fontName === 'Dancing Script' || fontName === 'Sacramento';
-
-    try {
-        const spacingToUse = isCursive ? 0 : settings.letterSpacing;
-        // @ts-ignore
-        bCtx.letterSpacing = `${spacingToUse}px`;
-    } catch (e) {}
-
-    bCtx.setTransform(1, 0, settings.slant || 0, 1, 0, 0);
-    
-    let fontWeight = 'normal'; 
-    if (settings.fontStyle === 'BRUSH') {
-        fontWeight = '900'; 
+    ctx.scale(dpr, dpr);
+    const layer: TextLayer = { block, canvas, svg: [], frame: null, cancelScan: null, preview: false };
+    textLayersRef.current.set(block.id, layer);
+    compositeTextLayers();
+
+    // Rasterizing before the font arrives would scatter the particles over a fallback face
+    const font = getTextFont(settings, block.text);
+    if (!fallback && !isTextFontReady(font, block.text)) {
+      setBlockFont(block.id, { status: 'LOADING', family: font.family });
+      loadTextFont(font, block.text)
+        .then(() => {
+          if (textLayersRef.current.get(block.id) !== layer) return;
+          setBlockFont(block.id, null);
+          renderTextBlock(block);
+        })
+        .catch(error => {
+          console.warn("Font failed to load:", error);
+          if (textLayersRef.current.get(block.id) !== layer) return;
+          setBlockFont(block.id, { status: 'ERROR', family: font.family });
+          // Something on the canvas beats an empty spot; the panel says why it looks off
+          renderTextBlock(block, true);
+        });
+      return;
     }
-    const fontSize = (settings.fontSize || 100) * dpr;
-    bCtx.font = `${fontWeight} ${fontSize}px '${fontName}'`;
-
-    if (settings.weightOption === 'BOLD') {
-       // Reduced stroke width for BOLD to prevent clumping
-       bCtx.lineWidth = fontSize * 0.035; 
-       bCtx.strokeStyle = 'black';
-       bCtx.lineJoin = 'round';
-    }
-
-    const lines = text.split('\n');
-    const lineHeightPx = fontSize * (settings.lineHeight || 1.2);
-    const totalHeight = lines.length * lineHeightPx;
-    const startY = (buffer.height - totalHeight) / 2 + (lineHeightPx / 2);
-
-    lines.forEach((line, index) => {
-      const y = startY + (index * lineHeightPx);
-      bCtx.fillText(line, buffer.width / 2, y);
-      if (settings.weightOption === 'BOLD') {
-        bCtx.strokeText(line, buffer.width / 2, y);
-      }
-    });
-    
-    bCtx.setTransform(1, 0, 0, 1, 0, 0);
+    if (!fallback) setBlockFont(block.id, null);
 
-    const imageData = bCtx.getImageData(0, 0, buffer.width, buffer.height);
-    const data = imageData.data;
-    const particles: {x: number, y: number}[] = [];
+    if (textCanvas.width === 0 || textCanvas.height === 0) return;
 
     // Redefined particle sizes based on user feedback
     let particleSize = 3;
@@ -752,73 +1007,208 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
     }
     
     const effectiveStep = Math.max(1, Math.floor(scanStep * dpr));
-
-    for (let y = 0; y < buffer.height; y += effectiveStep) {
-      for (let x = 0; x < buffer.width; x += effectiveStep) {
-        const alpha = data[(y * buffer.width + x) * 4 + 3];
-        if (alpha > 50) { 
-          particles.push({ x: x / dpr, y: y / dpr });
-        }
-      }
-    }
-
+    // Particle order comes from the block's seed; jitter and bleed get their own
+    // stream of it, so they don't depend on how much of the seed the scan used
+    const random = createRandom(deriveSeed(settings.seed, 1));
+    const isWriting = settings.textReveal === 'WRITE';
+
+    // Writing takes about half a second per character (capped at 8s overall),
+    // dissolving draws a fixed number of particles per frame
+    let batchSize = 1000;
+
+    // x, y pairs, filled in as the scan streams them back
+    let particles = new Float32Array(0);
+    let received = 0;
     let particleIndex = 0;
-    const batchSize = 1000; 
-    particles.sort(() => Math.random() - 0.5);
     
     const brushAngleRad = 45 * (Math.PI / 180);
     let roughness = 0;
     let roundness = 1.0;
     
-    if (mode === AppMode.GENERATE) {
-        if (settings.fontStyle === 'BRUSH') {
-            roughness = 0.4;
-            roundness = 0.6;
-        } else if (settings.fontStyle === 'PEN') {
-            roughness = 0.05; 
-            roundness = 0.95;
-        } else {
-            roughness = 0.02; 
-            roundness = 1.0;
-        }
+    if (settings.fontStyle === 'BRUSH') {
+        roughness = 0.4;
+        roundness = 0.6;
+    } else if (settings.fontStyle === 'PEN') {
+        roughness = 0.05; 
+        roundness = 0.95;
+    } else {
+        roughness = 0.02; 
+        roundness = 1.0;
     }
 
+    // Generated text is stamped in place, so it bleeds like a resting brush.
+    // Only a fraction of particles bleed to keep the cost per batch bounded.
+    const ink = mixInk(settings.color, settings.concentration);
+    const textBleed = Math.min(1, getBleedAmount(settings, 0) * ink.bleed);
+    const bleedRadius = particleSize * 1.5;
+    // Neighbouring particles on the scan grid overlap, so each gets a share of
+    // the dilution's alpha that builds up to it (as stroke stamps do)
+    const particleOverlap = Math.max(1, (Math.PI * Math.pow(particleSize / 2, 2)) / (scanStep * scanStep));
+    const particleAlpha = 1 - Math.pow(1 - ink.alpha, 1 / particleOverlap);
+
     const animateText = () => {
-      if (particleIndex >= particles.length) return;
+      layer.frame = null;
+      if (particleIndex * 2 >= received) return;
       const shouldBlur = settings.weightOption !== 'THIN';
       ctx.shadowBlur = shouldBlur ? 1 : 0;
-      ctx.shadowColor = settings.color;
+      ctx.shadowColor = ink.color;
 
       for (let i = 0; i < batchSize; i++) {
-        if (particleIndex >= particles.length) break;
-        const p = particles[particleIndex];
+        if (particleIndex * 2 >= received) break;
+        const px = particles[particleIndex * 2];
+        const py = particles[particleIndex * 2 + 1];
         
-        if (mode === AppMode.GENERATE && settings.fontStyle === 'BRUSH' && Math.random() < 0.1) {
+        if (settings.fontStyle === 'BRUSH' && random() < 0.1) {
             particleIndex++;
             continue;
         }
         
         const jiggle = settings.weightOption === 'THIN' ? 0.1 : (roughness * 1.5);
-        const jx = p.x + (Math.random() - 0.5) * jiggle;
-        const jy = p.y + (Math.random() - 0.5) * jiggle;
-        const currentParticleSize = particleSize * (0.85 + Math.random() * 0.3); 
+        const jx = px + (random() - 0.5) * jiggle;
+        const jy = py + (random() - 0.5) * jiggle;
+        const currentParticleSize = particleSize * (0.85 + random() * 0.3); 
         const radiusX = currentParticleSize / 2;
         const radiusY = (currentParticleSize / 2) * roundness;
-        const opacity = 0.95 + Math.random() * 0.05;
+        const opacity = 0.95 + random() * 0.05;
 
-        drawAndRecordEllipse(ctx, textSvgRef, jx, jy, radiusX, radiusY, brushAngleRad, settings.color, opacity);
+        drawEllipseStamp({ ctx, svg: layer.svg }, jx, jy, radiusX, radiusY, brushAngleRad, ink.color, opacity * particleAlpha);
+        if (textBleed > 0 && random() < textBleed * 0.1) {
+          drawInkBleed({ ctx, svg: layer.svg }, jx, jy, bleedRadius, ink.color, textBleed, random);
+        }
         particleIndex++;
       }
       ctx.shadowBlur = 0;
-      animationFrameIdRef.current = requestAnimationFrame(animateText);
+      compositeTextLayers();
+      // Caught up with the scan: the next chunk starts the loop again
+      if (particleIndex * 2 < received) layer.frame = requestAnimationFrame(animateText);
     };
-    animationFrameIdRef.current = requestAnimationFrame(animateText);
-  }, [settings, drawAndRecordEllipse, mode]);
 
+    layer.cancelScan = scanTextParticles({
+      block,
+      width: textCanvas.width,
+      height: textCanvas.height,
+      dpr,
+      step: effectiveStep
+    }, {
+      onStart: (total, glyphCount) => {
+        particles = new Float32Array(total * 2);
+        received = 0;
+        particleIndex = 0;
+        const writingFrames = Math.min(480, Math.max(60, glyphCount * 30));
+        if (isWriting) batchSize = Math.max(20, Math.ceil(total / writingFrames));
+      },
+      onChunk: points => {
+        particles.set(points, received);
+        received += points.length;
+        if (layer.frame === null) layer.frame = requestAnimationFrame(animateText);
+      },
+      onDone: () => {
+        layer.cancelScan = null;
+      }
+    });
+  }, [compositeTextLayers, removeTextLayer, setBlockFont]);
+
+  // Blocks drawn in a fallback face are redrawn once their font turns up:
+  // a user font registered after them, or a face the browser loaded later
+  const retryFailedFonts = useCallback(() => {
+    textBlocksRef.current.forEach(block => {
+      if (blockFontsRef.current.get(block.id)?.status !== 'ERROR') return;
+      if (isTextFontReady(getTextFont(block.settings, block.text), block.text)) renderTextBlock(block);
+    });
+  }, [renderTextBlock]);
+
+  useEffect(() => {
+    document.fonts.addEventListener('loadingdone', retryFailedFonts);
+    return () => document.fonts.removeEventListener('loadingdone', retryFailedFonts);
+  }, [retryFailedFonts]);
+
+  useEffect(() => {
+    retryFailedFonts();
+  }, [fontsVersion, retryFailedFonts]);
+
+  // Cheap stand-in while typography is being adjusted: the glyphs filled
+  // flat in the block's ink, without the particle scan
+  const previewTextBlock = useCallback((block: TextBlock) => {
+    const textCanvas = textCanvasRef.current;
+    if (!textCanvas) return;
+
+    removeTextLayer(block.id);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = textCanvas.width;
+    canvas.height = textCanvas.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const ink = mixInk(block.settings.color, block.settings.concentration);
+    ctx.globalAlpha = ink.alpha;
+    drawTextGlyphs(ctx, block, canvas.width, canvas.height, window.devicePixelRatio || 1, ink.color);
+    textLayersRef.current.set(block.id, { block, canvas, svg: [], frame: null, cancelScan: null, preview: true });
+  }, [removeTextLayer]);
+
+  const isAdjustingRef = useRef(isAdjusting);
+  isAdjustingRef.current = isAdjusting;
+  const settleTimerRef = useRef<number | null>(null);
+
+  // Replaces every preview with the full render
+  const finishTextPreviews = useCallback(() => {
+    if (settleTimerRef.current !== null) {
+      clearTimeout(settleTimerRef.current);
+      settleTimerRef.current = null;
+    }
+    Array.from(textLayersRef.current.values())
+      .filter(layer => layer.preview)
+      .forEach(layer => renderTextBlock(layer.block));
+  }, [renderTextBlock]);
+
+  // Re-render blocks that are new or changed, drop deleted ones. New text
+  // renders at once; typography edits and box moves are previewed until they settle.
+  useEffect(() => {
+    const ids = new Set(textBlocks.map(block => block.id));
+    Array.from(textLayersRef.current.keys()).forEach(id => {
+      if (!ids.has(id)) removeTextLayer(id);
+    });
+    Array.from(blockFontsRef.current.keys()).forEach(id => {
+      if (!ids.has(id)) setBlockFont(id, null);
+    });
+
+    let previewed = false;
+    textBlocks.forEach(block => {
+      const layer = textLayersRef.current.get(block.id);
+      if (layer?.block === block) return;
+
+      if (layer && isSameTextRender(layer.block, block)) {
+        // Only brush settings changed, the text looks the same
+        layer.block = block;
+      } else if (layer && layer.block.text === block.text) {
+        previewTextBlock(block);
+        previewed = true;
+      } else {
+        renderTextBlock(block);
+      }
+    });
+    compositeTextLayers();
+
+    // While a slider is held the full render waits for it to be let go
+    if (previewed && !isAdjustingRef.current) {
+      if (settleTimerRef.current !== null) clearTimeout(settleTimerRef.current);
+      settleTimerRef.current = window.setTimeout(finishTextPreviews, TEXT_PREVIEW_SETTLE_MS);
+    }
+  }, [textBlocks, renderTextBlock, previewTextBlock, finishTextPreviews, removeTextLayer, compositeTextLayers, setBlockFont]);
+
+  useEffect(() => {
+    if (!isAdjusting) finishTextPreviews();
+  }, [isAdjusting, finishTextPreviews]);
 
   useEffect(() => {
+    const layers = textLayersRef.current;
     return () => {
-      if (animationFrameIdRef.current) cancelAnimationFrame(animationFrameIdRef.current);
+      if (settleTimerRef.current !== null) clearTimeout(settleTimerRef.current);
+      if (dwellTimerRef.current !== null) clearInterval(dwellTimerRef.current);
+      layers.forEach(layer => {
+        if (layer.frame) cancelAnimationFrame(layer.frame);
+        layer.cancelScan?.();
+      });
     };
   }, []);
 
@@ -826,44 +1216,44 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
   useEffect(() => {
     if (triggerClear) {
       const dpr = window.devicePixelRatio || 1;
+      cancelReplay();
       
+      Array.from(textLayersRef.current.keys()).forEach(removeTextLayer);
       if (textCanvasRef.current) {
          const ctx = textCanvasRef.current.getContext('2d');
          ctx?.clearRect(0, 0, textCanvasRef.current.width / dpr, textCanvasRef.current.height / dpr);
-         textSvgRef.current = [];
       }
       
       if (drawingCanvasRef.current) {
          const ctx = drawingCanvasRef.current.getContext('2d');
          ctx?.clearRect(0, 0, drawingCanvasRef.current.width / dpr, drawingCanvasRef.current.height / dpr);
-         drawingSvgRef.current = [];
          
          // Fix: Save blank state to history to enable Undo for Clear action
-         saveHistory();
-      }
-
-      if (animationFrameIdRef.current) {
-        cancelAnimationFrame(animationFrameIdRef.current);
-        animationFrameIdRef.current = null;
+         // (text blocks are cleared along with it, in the same step)
+         pushHistory({ strokes: [], textBlocks: [] });
       }
       onClearComplete();
     }
-  }, [triggerClear, onClearComplete, saveHistory]);
+  }, [triggerClear, onClearComplete, pushHistory, cancelReplay, removeTextLayer]);
 
-  // Handle Text Update
+  // Text submissions and typography changes are history steps too. Runs after
+  // the clear above, so clearing strokes and text stays a single step.
   useEffect(() => {
-    if (mode === AppMode.GENERATE && textToRender) {
-      renderGenerativeText(textToRender);
-    } else if (!textToRender) {
-       if (textCanvasRef.current) {
-          const dpr = window.devicePixelRatio || 1;
-          const ctx = textCanvasRef.current.getContext('2d');
-          ctx?.clearRect(0, 0, textCanvasRef.current.width / dpr, textCanvasRef.current.height / dpr);
-          textSvgRef.current = [];
-       }
-       if (animationFrameIdRef.current) cancelAnimationFrame(animationFrameIdRef.current);
+    const index = historyStepIndexRef.current;
+    const step = historyRef.current[index];
+    if (!step || isSameBlockList(textBlocks, step.textBlocks)) return;
+
+    const now = Date.now();
+    const mergeKey = getSettingsEditKey(step.textBlocks, textBlocks);
+    const isLatest = index === historyRef.current.length - 1;
+    if (mergeKey && step.mergeKey === mergeKey && isLatest && now - (step.time ?? 0) < TEXT_EDIT_MERGE_MS) {
+      historyRef.current[index] = { ...step, textBlocks, time: now };
+      return;
     }
-  }, [mode, textToRender, settings, renderGenerativeText]); 
+
+    pushHistory({ strokes: step.strokes, textBlocks, mergeKey, time: now });
+  }, [textBlocks, pushHistory]);
+
 
   return (
     <div 
@@ -904,6 +1294,16 @@ const CalligraphyCanvas = forwardRef<CalligraphyCanvasHandle, CalligraphyCanvasP
           zIndex: 2
         }}
       />
+      {mode === AppMode.GENERATE && textBlocks.map(block => block.box && (
+        <TextBoxOverlay
+          key={block.id}
+          box={block.box}
+          viewState={viewState}
+          selected={block.id === selectedBlockId}
+          onSelect={() => onSelectBlock(block.id)}
+          onChange={(box) => onTextBlockBoxChange(block.id, box)}
+        />
+      ))}
     </div>
   );
 });
@@ -1,6 +1,12 @@
-import React, { useState } from 'react';
-import { BrushSettings, AppMode, ViewState, FontStyle, WeightOption, Preset } from '../types';
-import { Sliders, RefreshCw, Trash2, Image, FileCode, Brush, Type, Send, RotateCw, Circle, Droplets, MoreHorizontal, Triangle, AlignCenterHorizontal, Italic, Type as TypeIcon, AlignVerticalJustifyCenter, Undo2, Redo2, Dices, Save, X, Ruler, RotateCcw, Bookmark, Check, Bold, Sparkles, BookOpen, Eraser } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { BrushSettings, AppMode, ViewState, FontStyle, WeightOption, Preset, StabilizerMode, InkConcentration, TipAngleMode, StrokeExit, TipType, TextReveal, WritingDirection, TextAlignment, TextBlock, SvgExportOptions, SvgExportMode, UserFont, FontLoadState } from '../types';
+import { INK_COLORS, INK_CONCENTRATION_LABELS, mixInk } from '../utils/ink';
+import { TIP_TYPES, TIP_TYPE_LABELS } from '../utils/brushTips';
+import { REPLAY_SPEEDS } from '../utils/replay';
+import { canRecordVideo, ReplayExportFormat } from '../utils/replayExport';
+import { createSeed, formatSeed, parseSeed } from '../utils/random';
+import { getUserFontFamily, isUserFontFamily, USER_FONT_ACCEPT } from '../utils/userFonts';
+import { Sliders, RefreshCw, Trash2, Image, FileCode, Brush, Type, Send, RotateCw, Circle, Droplets, MoreHorizontal, Triangle, AlignCenterHorizontal, Italic, Type as TypeIcon, AlignVerticalJustifyCenter, Undo2, Redo2, Dices, Save, X, Ruler, RotateCcw, Bookmark, Check, Bold, Sparkles, BookOpen, Eraser, Spline, Anchor, Waves, Droplet, Palette, PenTool, Gauge, Feather, FileText, Play, Square, Film, AlignLeft, AlignCenter, AlignRight, BoxSelect, Maximize, Plus, Hash, Lock, Unlock, Upload, Loader2, AlertTriangle } from 'lucide-react';
 
 interface ControlPanelProps {
   settings: BrushSettings;
@@ -9,12 +15,29 @@ interface ControlPanelProps {
   onViewStateChange: (newView: ViewState) => void;
   onClear: () => void;
   onDownloadPng: () => void;
-  onDownloadSvg: () => void;
+  onDownloadSvg: (options: SvgExportOptions) => void;
+  onDownloadPdf: () => void;
+  isReplaying: boolean;
+  onReplay: (speed: number) => void;
+  onStopReplay: () => void;
+  onExportReplay: (format: ReplayExportFormat, speed: number, onProgress: (progress: number) => void) => Promise<void>;
   onUndo: () => void;
   onRedo: () => void;
+  inkLevel: number;
+  onRedip: () => void;
   mode: AppMode;
   onModeChange: (mode: AppMode) => void;
   onManualTextSubmit: (text: string) => void;
+  textBlocks: TextBlock[];
+  selectedBlockId: string | null;
+  onSelectBlock: (id: string | null) => void;
+  onDeleteBlock: (id: string) => void;
+  hasTextBox: boolean;
+  onToggleTextBox: () => void;
+  userFonts: UserFont[];
+  fontState: FontLoadState;
+  onAddFont: (file: File) => Promise<void>;
+  onDeleteFont: (id: string) => void;
   
   presets: Preset[];
   onLoadPreset: (preset: Preset) => void;
@@ -26,8 +49,10 @@ interface ControlPanelProps {
   showGuides: boolean;
   onToggleGuides: () => void;
   onOpenGuide: () => void;
+  onOpenCalibration: () => void;
   
   onMagic?: () => void;
+  onAdjustingChange?: (adjusting: boolean) => void; // A slider is held down, or let go
   
   isOpen?: boolean;
   onClose?: () => void;
@@ -41,11 +66,28 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onClear,
   onDownloadPng,
   onDownloadSvg,
+  onDownloadPdf,
+  isReplaying,
+  onReplay,
+  onStopReplay,
+  onExportReplay,
   onUndo,
   onRedo,
+  inkLevel,
+  onRedip,
   mode,
   onModeChange,
   onManualTextSubmit,
+  textBlocks,
+  selectedBlockId,
+  onSelectBlock,
+  onDeleteBlock,
+  hasTextBox,
+  onToggleTextBox,
+  userFonts,
+  fontState,
+  onAddFont,
+  onDeleteFont,
   presets,
   onLoadPreset,
   onDeletePreset,
@@ -55,15 +97,78 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   showGuides,
   onToggleGuides,
   onOpenGuide,
+  onOpenCalibration,
   onMagic,
+  onAdjustingChange,
   isOpen = true,
   onClose
 }) => {
   const [manualInput, setManualInput] = useState('');
+
+  // The input edits the selected block, so it shows that block's text
+  useEffect(() => {
+    setManualInput(textBlocks.find(b => b.id === selectedBlockId)?.text ?? '');
+  }, [selectedBlockId]);
   // State for inline save UI
   const [isSaving, setIsSaving] = useState(false);
   const [presetName, setPresetName] = useState('');
 
+  // SVG export: merged outlines by default, raw particles on request
+  const [svgMode, setSvgMode] = useState<SvgExportMode>('OUTLINE');
+  const [svgTolerance, setSvgTolerance] = useState(0.5);
+
+  // Seed field: edited as text, applied on Enter or blur
+  const [seedInput, setSeedInput] = useState(formatSeed(settings.seed));
+  useEffect(() => {
+    setSeedInput(formatSeed(settings.seed));
+  }, [settings.seed]);
+
+  const handleSeedSubmit = () => {
+    const seed = parseSeed(seedInput);
+    if (seed === null || seed === settings.seed) {
+      setSeedInput(formatSeed(settings.seed));
+      return;
+    }
+    onSettingsChange({ ...settings, seed });
+  };
+
+  const handleSeedReroll = () => {
+    onSettingsChange({ ...settings, seed: createSeed() });
+  };
+
+  const handleSeedLockToggle = () => {
+    onSettingsChange({ ...settings, seedLocked: !settings.seedLocked });
+  };
+
+  // Replay: speed shared by playback and animated export
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayExport, setReplayExport] = useState<{ format: ReplayExportFormat; progress: number } | null>(null);
+
+  const handleExportReplay = async (format: ReplayExportFormat) => {
+    setReplayExport({ format, progress: 0 });
+    try {
+      await onExportReplay(format, replaySpeed, (progress) => setReplayExport({ format, progress }));
+    } finally {
+      setReplayExport(null);
+    }
+  };
+
+  // Reports a held slider until the pointer is released anywhere, so the
+  // canvas can show a quick preview while it moves
+  const handlePanelPointerDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    if (!onAdjustingChange || (e.target as HTMLInputElement).type !== 'range') return;
+
+    onAdjustingChange(true);
+    const release = () => {
+      window.removeEventListener('pointerup', release);
+      window.removeEventListener('pointercancel', release);
+      onAdjustingChange(false);
+    };
+    window.addEventListener('pointerup', release);
+    window.addEventListener('pointercancel', release);
+  };
+
   const handleChange = (key: keyof BrushSettings, value: number) => {
     onSettingsChange({ ...settings, [key]: value });
   };
@@ -72,10 +177,76 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     onSettingsChange({ ...settings, fontStyle: style });
   };
 
+  const handleUserFontSelect = (customFontId: string) => {
+    onSettingsChange({ ...settings, fontStyle: 'CUSTOM', customFontId });
+  };
+
+  const [isAddingFont, setIsAddingFont] = useState(false);
+
+  // User fonts are registered under an internal family name
+  const fontLabels = fontState.families
+    .map(family => {
+      if (!isUserFontFamily(family)) return family;
+      return userFonts.find(font => getUserFontFamily(font.id) === family)?.name ?? '지운 글꼴';
+    })
+    .join(', ');
+
+  const handleFontFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // The same file can be picked again after a failure
+    if (!file) return;
+    setIsAddingFont(true);
+    try {
+      await onAddFont(file);
+    } finally {
+      setIsAddingFont(false);
+    }
+  };
+
   const handleWeightChange = (weight: WeightOption) => {
     onSettingsChange({ ...settings, weightOption: weight });
   };
+
+  const handleWritingDirectionChange = (writingDirection: WritingDirection) => {
+    onSettingsChange({ ...settings, writingDirection });
+  };
+
+  const handleTextAlignChange = (textAlign: TextAlignment) => {
+    onSettingsChange({ ...settings, textAlign });
+  };
+
+  const handleTextRevealChange = (textReveal: TextReveal) => {
+    onSettingsChange({ ...settings, textReveal });
+  };
   
+  const handleStabilizerChange = (stabilizer: StabilizerMode) => {
+    onSettingsChange({ ...settings, stabilizer });
+  };
+
+  const handleTipTypeChange = (tipType: TipType) => {
+    onSettingsChange({ ...settings, tipType });
+  };
+
+  const handleExitStyleChange = (exitStyle: StrokeExit) => {
+    onSettingsChange({ ...settings, exitStyle });
+  };
+
+  const handleTipAngleModeChange = (tipAngleMode: TipAngleMode) => {
+    onSettingsChange({ ...settings, tipAngleMode });
+  };
+
+  const handleFollowStylusToggle = () => {
+    onSettingsChange({ ...settings, followStylus: !settings.followStylus });
+  };
+
+  const handleColorChange = (color: string) => {
+    onSettingsChange({ ...settings, color });
+  };
+
+  const handleConcentrationChange = (concentration: InkConcentration) => {
+    onSettingsChange({ ...settings, concentration });
+  };
+
   const handleEraserToggle = () => {
     onSettingsChange({ ...settings, isEraser: !settings.isEraser });
   };
@@ -112,7 +283,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         `}
         onMouseDown={(e) => e.stopPropagation()}
         onTouchStart={(e) => e.stopPropagation()}
-        onPointerDown={(e) => e.stopPropagation()}
+        onPointerDown={handlePanelPointerDown}
       >
         
         {/* Mobile Handle */}
@@ -266,7 +437,8 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                           <div className="flex flex-col overflow-hidden mr-2">
                              <span className="text-xs font-bold text-stone-700 truncate">{p.name}</span>
                              <span className="text-[9px] text-stone-400">
-                                사이즈: {p.settings.size}px / 갈필: {(p.settings.roughness * 100).toFixed(0)}%
+                                사이즈: {p.settings.size}px / 갈필: {(p.settings.roughness * 100).toFixed(0)}% / {INK_CONCENTRATION_LABELS[p.settings.concentration || 'DARK']} / {TIP_TYPE_LABELS[p.settings.tipType || 'ELLIPSE']}
+                                {p.settings.seed !== undefined && <> / 시드 {formatSeed(p.settings.seed)}</>}
                              </span>
                           </div>
                           <button 
@@ -292,10 +464,60 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           {/* Generate Mode Controls */}
           {mode === AppMode.GENERATE && (
             <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2">
+              {/* Text Blocks */}
+              {textBlocks.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-xs font-bold uppercase tracking-wider text-stone-700">글 목록</label>
+                    <button
+                      onClick={() => onSelectBlock(null)}
+                      className={`text-[10px] flex items-center px-2 py-1 rounded-md transition-colors ${
+                        selectedBlockId ? 'bg-stone-100 hover:bg-stone-200 text-stone-700' : 'bg-stone-800 text-white'
+                      }`}
+                      title="선택을 풀고 새 글을 입력합니다"
+                    >
+                      <Plus className="w-3 h-3 mr-1" />
+                      새 글
+                    </button>
+                  </div>
+                  <div className="space-y-1">
+                    {textBlocks.map((block) => (
+                      <div
+                        key={block.id}
+                        className={`flex items-center rounded-lg border transition-colors ${
+                          block.id === selectedBlockId ? 'border-stone-800 bg-stone-50' : 'border-stone-200 hover:bg-stone-50'
+                        }`}
+                      >
+                        <button
+                          onClick={() => onSelectBlock(block.id)}
+                          className="flex-1 min-w-0 flex items-center px-2 py-1.5 text-left"
+                        >
+                          <span
+                            className="w-2.5 h-2.5 rounded-full shrink-0 mr-2 border border-stone-300"
+                            style={{ backgroundColor: block.settings.color }}
+                          />
+                          <span className="text-xs font-serif text-stone-800 truncate">{block.text.split('\n')[0] || '(빈 글)'}</span>
+                          <span className="text-[10px] font-mono text-stone-400 ml-auto pl-2 shrink-0">
+                            {block.settings.fitToBox ? '맞춤' : block.settings.fontSize}
+                          </span>
+                        </button>
+                        <button
+                          onClick={() => onDeleteBlock(block.id)}
+                          className="p-1.5 text-stone-400 hover:text-red-600 transition-colors"
+                          title="이 글 지우기"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Manual Input Section */}
               <div>
                 <label className="text-xs font-bold uppercase tracking-wider text-stone-700 block mb-2">
-                  직접 입력
+                  {selectedBlockId ? '선택한 글 고치기' : '직접 입력'}
                 </label>
                 <form onSubmit={handleManualSubmit} className="flex gap-2">
                   <textarea
@@ -318,6 +540,18 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     <Send className="w-4 h-4" />
                   </button>
                 </form>
+                {fontState.status === 'LOADING' && (
+                  <p className="mt-2 flex items-center text-[10px] text-stone-500">
+                    <Loader2 className="w-3 h-3 mr-1 shrink-0 animate-spin" />
+                    글꼴 불러오는 중 ({fontLabels}). 다 받으면 바로 그립니다.
+                  </p>
+                )}
+                {fontState.status === 'ERROR' && (
+                  <p className="mt-2 flex items-start text-[10px] text-red-600 leading-relaxed">
+                    <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+                    글꼴을 불러오지 못해 기본 글꼴로 그렸습니다 ({fontLabels}). 인터넷 연결을 확인하거나 '내 글꼴 추가'로 글꼴 파일을 불러오세요.
+                  </p>
+                )}
               </div>
 
               {/* Removed AI Generator Section and Divider */}
@@ -351,6 +585,51 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         </button>
                       ))}
                     </div>
+
+                    {/* User Fonts */}
+                    <div className="mt-2 space-y-1">
+                      {userFonts.map((font) => (
+                        <div
+                          key={font.id}
+                          className={`flex items-center rounded-lg border transition-colors ${
+                            settings.fontStyle === 'CUSTOM' && settings.customFontId === font.id
+                              ? 'border-stone-800 bg-stone-50'
+                              : 'border-stone-200 hover:bg-stone-50'
+                          }`}
+                        >
+                          <button
+                            onClick={() => handleUserFontSelect(font.id)}
+                            className="flex-1 min-w-0 px-2 py-1.5 text-left text-sm text-stone-700 truncate"
+                            style={{ fontFamily: `'${getUserFontFamily(font.id)}'` }}
+                          >
+                            {font.name}
+                          </button>
+                          <button
+                            onClick={() => onDeleteFont(font.id)}
+                            className="p-1.5 text-stone-400 hover:text-red-600 transition-colors"
+                            title="이 글꼴 지우기"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      ))}
+                      <label
+                        className={`flex items-center justify-center w-full py-1.5 rounded-lg border border-dashed border-stone-300 text-[10px] font-medium text-stone-500 transition-colors ${
+                          isAddingFont ? 'opacity-50' : 'cursor-pointer hover:border-stone-500 hover:text-stone-700'
+                        }`}
+                        title="TTF, OTF, WOFF, WOFF2 파일"
+                      >
+                        <Upload className="w-3 h-3 mr-1" />
+                        {isAddingFont ? '글꼴 불러오는 중...' : '내 글꼴 추가'}
+                        <input
+                          type="file"
+                          accept={USER_FONT_ACCEPT}
+                          onChange={handleFontFile}
+                          disabled={isAddingFont}
+                          className="hidden"
+                        />
+                      </label>
+                    </div>
                  </div>
 
                  {/* Weight Selector */}
@@ -371,14 +650,96 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     </div>
                  </div>
 
+                 {/* Writing Direction Selector */}
+                 <div>
+                    <label className="text-xs font-bold uppercase tracking-wider text-stone-700 block mb-2">쓰기 방향</label>
+                    <div className="flex bg-stone-100 rounded-lg p-1">
+                      {(['HORIZONTAL', 'VERTICAL'] as WritingDirection[]).map((d) => (
+                        <button
+                          key={d}
+                          onClick={() => handleWritingDirectionChange(d)}
+                          className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${
+                            settings.writingDirection === d ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                          }`}
+                          title={d === 'VERTICAL' ? '위에서 아래로, 오른쪽 줄부터 씁니다' : undefined}
+                        >
+                          {d === 'HORIZONTAL' ? '가로쓰기' : '세로쓰기'}
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+
+                 {/* Alignment & Text Box */}
+                 <div>
+                    <label className="text-xs font-bold uppercase tracking-wider text-stone-700 block mb-2">배치</label>
+                    <div className="flex gap-2">
+                      <div className="flex bg-stone-100 rounded-lg p-1 flex-1">
+                        {(['LEFT', 'CENTER', 'RIGHT'] as TextAlignment[]).map((a) => {
+                          const Icon = a === 'LEFT' ? AlignLeft : a === 'CENTER' ? AlignCenter : AlignRight;
+                          const vertical = settings.writingDirection === 'VERTICAL';
+                          return (
+                            <button
+                              key={a}
+                              onClick={() => handleTextAlignChange(a)}
+                              className={`flex-1 flex justify-center py-1.5 rounded-md transition-all ${
+                                settings.textAlign === a ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                              }`}
+                              title={a === 'LEFT' ? (vertical ? '위 맞춤' : '왼쪽 맞춤') : a === 'CENTER' ? '가운데 맞춤' : (vertical ? '아래 맞춤' : '오른쪽 맞춤')}
+                            >
+                              <Icon className={`w-3.5 h-3.5 ${vertical ? 'rotate-90' : ''}`} />
+                            </button>
+                          );
+                        })}
+                      </div>
+                      <button
+                        onClick={onToggleTextBox}
+                        disabled={!selectedBlockId}
+                        className={`px-2.5 rounded-lg border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                          hasTextBox ? 'bg-stone-800 border-stone-800 text-white' : 'border-stone-200 text-stone-500 hover:bg-stone-100'
+                        }`}
+                        title={hasTextBox ? '글상자 없애기 (화면 전체에 배치)' : '글상자 만들기 (끌어서 옮기고 모서리로 크기 조절)'}
+                      >
+                        <BoxSelect className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onSettingsChange({ ...settings, fitToBox: !settings.fitToBox })}
+                        className={`px-2.5 rounded-lg border transition-colors ${
+                          settings.fitToBox ? 'bg-stone-800 border-stone-800 text-white' : 'border-stone-200 text-stone-500 hover:bg-stone-100'
+                        }`}
+                        title="글자 크기를 글상자에 꽉 차게 맞추기"
+                      >
+                        <Maximize className="w-4 h-4" />
+                      </button>
+                    </div>
+                 </div>
+
+                 {/* Reveal Selector */}
+                 <div>
+                    <label className="text-xs font-bold uppercase tracking-wider text-stone-700 block mb-2">나타나는 방식</label>
+                    <div className="flex bg-stone-100 rounded-lg p-1">
+                      {(['WRITE', 'DISSOLVE'] as TextReveal[]).map((r) => (
+                        <button
+                          key={r}
+                          onClick={() => handleTextRevealChange(r)}
+                          className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${
+                            settings.textReveal === r ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                          }`}
+                          title={r === 'WRITE' ? '획을 따라 한 글자씩 써 내려갑니다' : '흩어진 점들이 모여 글씨가 됩니다'}
+                        >
+                          {r === 'WRITE' ? '획순대로 쓰기' : '흩뿌리기'}
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+
                  {/* ... (Existing Typography sliders) ... */}
                  <div className="flex items-center justify-between text-stone-700">
                   <span className="text-xs font-bold uppercase tracking-wider flex items-center">
                     <TypeIcon className="w-3 h-3 mr-1" /> 크기
                   </span>
-                  <span className="text-xs font-mono">{settings.fontSize}</span>
+                  <span className="text-xs font-mono">{settings.fitToBox ? '맞춤' : settings.fontSize}</span>
                 </div>
-                <input type="range" min="30" max="300" step="5" value={settings.fontSize} onChange={(e) => handleChange('fontSize', Number(e.target.value))} className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800" />
+                <input type="range" min="30" max="300" step="5" value={settings.fontSize} disabled={settings.fitToBox} onChange={(e) => handleChange('fontSize', Number(e.target.value))} className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800 disabled:opacity-40" />
                 
                 {/* Line Height */}
                 <div className="flex items-center justify-between text-stone-700 pt-2">
@@ -445,7 +806,16 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               <span className="text-xs font-bold uppercase tracking-wider flex items-center">
                 <Triangle className="w-3 h-3 mr-1 rotate-180" /> 붓끝 모양
               </span>
-              <span className="text-xs font-mono">{(settings.taper * 100).toFixed(0)}%</span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={onOpenCalibration}
+                  className="text-[10px] flex items-center px-2 py-0.5 bg-stone-100 text-stone-600 rounded-md hover:bg-stone-200 transition-colors"
+                  title="입력 장치별 필압·속도 곡선 보정"
+                >
+                  <Gauge className="w-3 h-3 mr-1" /> 필압 보정
+                </button>
+                <span className="text-xs font-mono">{(settings.taper * 100).toFixed(0)}%</span>
+              </div>
             </div>
             <input
               type="range"
@@ -471,6 +841,27 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
             />
 
+            {/* Tip Type */}
+            <div className="pt-2">
+              <label className="text-xs font-bold uppercase tracking-wider text-stone-700 flex items-center mb-2">
+                <Brush className="w-3 h-3 mr-1" /> 붓 종류
+              </label>
+              <div className="flex bg-stone-100 rounded-lg p-1">
+                {TIP_TYPES.map((t) => (
+                  <button
+                    key={t}
+                    onClick={() => handleTipTypeChange(t)}
+                    className={`flex-1 py-1.5 rounded-md text-[10px] font-bold transition-all ${
+                      (settings.tipType || 'ELLIPSE') === t ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                    }`}
+                    title={t === 'ELLIPSE' ? '매끈한 타원 붓끝' : t === 'BRISTLE' ? '붓털마다 따로 자국이 남고, 먹이 마르면 갈라집니다' : t === 'CHISEL' ? '모서리가 각진 납작한 붓' : '종이결이 묻어나는 거친 질감'}
+                  >
+                    {TIP_TYPE_LABELS[t]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="flex items-center justify-between text-stone-700 pt-2">
               <span className="text-xs font-bold uppercase tracking-wider flex items-center">
                  <Circle className="w-3 h-3 mr-1" /> 붓 모양 (원형)
@@ -502,6 +893,31 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               onChange={(e) => handleChange('angle', Number(e.target.value))}
               className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
             />
+            <div className="flex gap-2">
+              <div className="flex-1 flex bg-stone-100 rounded-lg p-1">
+                {(['FIXED', 'DIRECTION'] as TipAngleMode[]).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => handleTipAngleModeChange(m)}
+                    className={`flex-1 py-1.5 rounded-md text-[10px] font-bold transition-all ${
+                      settings.tipAngleMode === m ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                    }`}
+                    title={m === 'FIXED' ? '항상 같은 각도로 붓을 댑니다' : '획의 진행 방향을 기준으로 각도를 더합니다'}
+                  >
+                    {m === 'FIXED' ? '고정 각도' : '진행 방향'}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleFollowStylusToggle}
+                className={`flex items-center px-2 rounded-lg text-[10px] font-bold transition-colors ${
+                  settings.followStylus ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-400 hover:text-stone-600'
+                }`}
+                title="펜의 기울기와 회전을 붓끝 각도와 눌림에 반영합니다 (지원되는 펜에서만)"
+              >
+                <PenTool className="w-3 h-3 mr-1" /> 펜 기울기
+              </button>
+            </div>
 
             {/* Hardness & Spacing */}
             <div className="flex items-center justify-between text-stone-700 pt-2">
@@ -535,12 +951,356 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               onChange={(e) => handleChange('spacing', Number(e.target.value))}
               className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
             />
+
+            {/* Curve Smoothing */}
+            <div className="flex items-center justify-between text-stone-700 pt-2">
+              <span className="text-xs font-bold uppercase tracking-wider flex items-center">
+                <Spline className="w-3 h-3 mr-1" /> 곡선 보정
+              </span>
+              <span className="text-xs font-mono">{((settings.smoothing || 0) * 100).toFixed(0)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.smoothing || 0}
+              onChange={(e) => handleChange('smoothing', Number(e.target.value))}
+              className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+            />
+
+            {/* Stroke Shape: 기필 / 전절 / 수필 */}
+            <div className="pt-2">
+              <label className="text-xs font-bold uppercase tracking-wider text-stone-700 flex items-center mb-2">
+                <Feather className="w-3 h-3 mr-1" /> 획의 모양
+              </label>
+            </div>
+            <div className="flex items-center justify-between text-stone-700">
+              <span className="text-xs font-bold uppercase tracking-wider" title="획을 시작할 때 붓을 눌러 머리를 만듭니다">기필 누름</span>
+              <span className="text-xs font-mono">{((settings.entryPress || 0) * 100).toFixed(0)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.entryPress || 0}
+              onChange={(e) => handleChange('entryPress', Number(e.target.value))}
+              className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+            />
+            <div className="flex items-center justify-between text-stone-700 pt-2">
+              <span className="text-xs font-bold uppercase tracking-wider" title="획이 급하게 꺾이는 곳을 두텁게 누릅니다">전절 누름</span>
+              <span className="text-xs font-mono">{((settings.cornerPress || 0) * 100).toFixed(0)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.cornerPress || 0}
+              onChange={(e) => handleChange('cornerPress', Number(e.target.value))}
+              className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+            />
+            <div>
+              <span className="text-xs font-bold uppercase tracking-wider text-stone-700 block mb-2">수필</span>
+              <div className="flex bg-stone-100 rounded-lg p-1">
+                {(['NONE', 'TAPER', 'HOOK'] as StrokeExit[]).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => handleExitStyleChange(m)}
+                    className={`flex-1 py-1.5 rounded-md text-[10px] font-bold transition-all ${
+                      settings.exitStyle === m ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                    }`}
+                    title={m === 'NONE' ? '붓을 그 자리에서 뗍니다' : m === 'TAPER' ? '빠르게 뗄수록 붓끝이 길게 빠집니다' : '획 끝에서 붓을 되돌려 갈고리를 만듭니다'}
+                  >
+                    {m === 'NONE' ? '멈춤' : m === 'TAPER' ? '붓끝 빼기' : '갈고리'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Ink Load */}
+            <div className="pt-2">
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-xs font-bold uppercase tracking-wider text-stone-700 flex items-center">
+                  <Droplet className="w-3 h-3 mr-1" /> 먹 머금기
+                </label>
+                <button
+                  onClick={onRedip}
+                  className="text-[10px] flex items-center px-2 py-1 bg-stone-800 text-white rounded-md shadow-sm hover:bg-stone-700 transition-colors active:scale-95"
+                  title="붓에 먹을 다시 묻힙니다"
+                >
+                  <Droplet className="w-3 h-3 mr-1" /> 먹 찍기
+                </button>
+              </div>
+              <div className="h-1.5 bg-stone-100 rounded-full overflow-hidden" title={`남은 먹: ${(inkLevel * 100).toFixed(0)}%`}>
+                <div
+                  className="h-full bg-stone-800 transition-all duration-300"
+                  style={{ width: `${Math.min(100, inkLevel * 100)}%` }}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between text-stone-700">
+              <span className="text-xs font-bold uppercase tracking-wider">먹 양</span>
+              <span className="text-xs font-mono">{(settings.inkLoad * 100).toFixed(0)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0.1"
+              max="1"
+              step="0.05"
+              value={settings.inkLoad}
+              onChange={(e) => handleChange('inkLoad', Number(e.target.value))}
+              className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+            />
+            <div className="flex items-center justify-between text-stone-700 pt-2">
+              <span className="text-xs font-bold uppercase tracking-wider">먹 소모 속도</span>
+              <span className="text-xs font-mono">{(settings.inkDepletion * 100).toFixed(0)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.inkDepletion}
+              onChange={(e) => handleChange('inkDepletion', Number(e.target.value))}
+              className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+            />
+
+            {/* Stabilizer */}
+            <div className="pt-2">
+              <label className="text-xs font-bold uppercase tracking-wider text-stone-700 flex items-center mb-2">
+                <Anchor className="w-3 h-3 mr-1" /> 손떨림 보정
+              </label>
+              <div className="flex bg-stone-100 rounded-lg p-1">
+                {(['OFF', 'AVERAGE', 'ROPE', 'PULLED'] as StabilizerMode[]).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => handleStabilizerChange(m)}
+                    className={`flex-1 py-1.5 rounded-md text-[10px] font-bold transition-all ${
+                      settings.stabilizer === m ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                    }`}
+                    title={m === 'AVERAGE' ? '최근 입력의 평균 위치로 그립니다' : m === 'ROPE' ? '줄 길이만큼 떨어져 따라옵니다' : m === 'PULLED' ? '줄로 따라오고, 손을 떼면 끝까지 당겨집니다' : undefined}
+                  >
+                    {m === 'OFF' ? '끄기' : m === 'AVERAGE' ? '평균' : m === 'ROPE' ? '줄' : '당김'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {settings.stabilizer !== 'OFF' && (
+              <>
+                <div className="flex items-center justify-between text-stone-700">
+                  <span className="text-xs font-bold uppercase tracking-wider">보정 강도</span>
+                  <span className="text-xs font-mono">{(settings.stabilizerStrength * 100).toFixed(0)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={settings.stabilizerStrength}
+                  onChange={(e) => handleChange('stabilizerStrength', Number(e.target.value))}
+                  className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+                />
+              </>
+            )}
           </div>
           )}
+
+          {/* Ink & Paper (Both Modes) */}
+          <div className="space-y-4 mb-6 pt-4 border-t border-stone-100">
+            {/* Ink Color & Concentration (농담) */}
+            <div>
+              <label className="text-xs font-bold uppercase tracking-wider text-stone-700 flex items-center mb-2">
+                <Palette className="w-3 h-3 mr-1" /> 먹색 · 농담
+              </label>
+              <div className="flex items-center gap-2 mb-2">
+                {INK_COLORS.map(ink => (
+                  <button
+                    key={ink.color}
+                    onClick={() => handleColorChange(ink.color)}
+                    className={`w-6 h-6 rounded-full border-2 transition-transform active:scale-95 ${
+                      settings.color.toLowerCase() === ink.color ? 'border-stone-800 scale-110' : 'border-white shadow-sm'
+                    }`}
+                    style={{ backgroundColor: ink.color }}
+                    title={ink.name}
+                  />
+                ))}
+                <input
+                  type="color"
+                  value={settings.color}
+                  onChange={(e) => handleColorChange(e.target.value)}
+                  className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+                  title="직접 선택"
+                />
+              </div>
+              <div className="flex bg-stone-100 rounded-lg p-1">
+                {(['DARK', 'MEDIUM', 'LIGHT'] as InkConcentration[]).map((c) => {
+                  const mixed = mixInk(settings.color, c);
+                  return (
+                    <button
+                      key={c}
+                      onClick={() => handleConcentrationChange(c)}
+                      className={`flex-1 flex items-center justify-center py-1.5 rounded-md text-xs font-bold transition-all ${
+                        settings.concentration === c ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                      }`}
+                    >
+                      <span
+                        className="w-2.5 h-2.5 rounded-full mr-1.5"
+                        style={{ backgroundColor: mixed.color, opacity: mixed.alpha }}
+                      />
+                      {INK_CONCENTRATION_LABELS[c]}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <label className="text-xs font-bold uppercase tracking-wider text-stone-700 flex items-center pt-2">
+              <Waves className="w-3 h-3 mr-1" /> 먹 번짐
+            </label>
+            <div className="flex items-center justify-between text-stone-700">
+              <span className="text-xs font-bold uppercase tracking-wider">종이 흡수력</span>
+              <span className="text-xs font-mono">{((settings.absorbency || 0) * 100).toFixed(0)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.absorbency || 0}
+              onChange={(e) => handleChange('absorbency', Number(e.target.value))}
+              className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+            />
+
+            <div className="flex items-center justify-between text-stone-700 pt-2">
+              <span className="text-xs font-bold uppercase tracking-wider">먹물 물기</span>
+              <span className="text-xs font-mono">{((settings.wetness || 0) * 100).toFixed(0)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.wetness || 0}
+              onChange={(e) => handleChange('wetness', Number(e.target.value))}
+              className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+            />
+
+            {/* Seed */}
+            <label className="text-xs font-bold uppercase tracking-wider text-stone-700 flex items-center pt-2">
+              <Hash className="w-3 h-3 mr-1" /> 시드
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={seedInput}
+                maxLength={8}
+                spellCheck={false}
+                onChange={(e) => setSeedInput(e.target.value.toUpperCase())}
+                onBlur={handleSeedSubmit}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSeedSubmit();
+                  if (e.key === 'Escape') setSeedInput(formatSeed(settings.seed));
+                }}
+                className="flex-1 min-w-0 px-2 py-1.5 text-xs font-mono tracking-wider border border-stone-200 rounded-md bg-white text-stone-900 focus:border-stone-800 outline-none"
+                title="같은 시드와 설정이면 언제나 똑같이 그려집니다"
+              />
+              <button
+                onClick={handleSeedLockToggle}
+                className={`p-1.5 rounded-md transition-colors ${
+                  settings.seedLocked ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-600 hover:bg-stone-200'
+                }`}
+                title={settings.seedLocked ? '시드 고정됨: 새 글과 랜덤에도 그대로 씁니다' : '시드 고정'}
+              >
+                {settings.seedLocked ? <Lock className="w-3.5 h-3.5" /> : <Unlock className="w-3.5 h-3.5" />}
+              </button>
+              <button
+                onClick={handleSeedReroll}
+                className="p-1.5 rounded-md bg-stone-100 text-stone-600 hover:bg-stone-200 transition-colors"
+                title="새 시드"
+              >
+                <RefreshCw className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
         </div>
 
         {/* Action Buttons */}
         <div className="mt-6 pt-4 border-t border-stone-200 shrink-0">
+          {/* Stroke Replay */}
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-stone-500 shrink-0">획순</span>
+            <button
+              onClick={() => (isReplaying ? onStopReplay() : onReplay(replaySpeed))}
+              className={`p-1.5 rounded-md transition-colors ${isReplaying ? 'bg-stone-800 text-white' : 'bg-stone-100 hover:bg-stone-200 text-stone-700'}`}
+              title={isReplaying ? '재생 멈추기' : '쓴 순서대로 다시 그리기'}
+            >
+              {isReplaying ? <Square className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+            </button>
+            <div className="flex bg-stone-100 rounded-lg p-1 flex-1">
+              {REPLAY_SPEEDS.map((speed) => (
+                <button
+                  key={speed}
+                  onClick={() => setReplaySpeed(speed)}
+                  className={`flex-1 py-1 rounded-md text-[10px] font-bold transition-all ${
+                    replaySpeed === speed ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                  }`}
+                >
+                  {speed}×
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2 mb-3">
+            {(['GIF', 'WEBM'] as ReplayExportFormat[]).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExportReplay(format)}
+                disabled={!!replayExport || (format === 'WEBM' && !canRecordVideo())}
+                className="flex-1 flex items-center justify-center py-1.5 bg-stone-100 hover:bg-stone-200 text-stone-800 rounded-lg transition-colors text-xs font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+                title={format === 'GIF' ? '획순 재생을 움직이는 GIF로 저장' : '획순 재생을 WebM 영상으로 녹화 (재생 시간만큼 걸립니다)'}
+              >
+                <Film className="w-3.5 h-3.5 mr-1.5" />
+                {replayExport?.format === format
+                  ? `${Math.round(replayExport.progress * 100)}%`
+                  : format === 'GIF' ? 'GIF' : 'WebM'}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-stone-500 shrink-0">SVG</span>
+            <div className="flex bg-stone-100 rounded-lg p-1 flex-1">
+              {(['OUTLINE', 'PARTICLES'] as SvgExportMode[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setSvgMode(m)}
+                  className={`flex-1 py-1 rounded-md text-[10px] font-bold transition-all ${
+                    svgMode === m ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                  }`}
+                  title={m === 'OUTLINE' ? '획마다 하나의 외곽선으로 합칩니다 (간판·레이저 커팅용)' : '붓 자국을 하나하나 그대로 저장합니다 (파일이 큽니다)'}
+                >
+                  {m === 'OUTLINE' ? '외곽선' : '붓 자국'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {svgMode === 'OUTLINE' && (
+            <div className="flex items-center gap-2 mb-3">
+              <span className="text-[10px] font-bold uppercase tracking-wider text-stone-500 shrink-0">단순화</span>
+              <input
+                type="range"
+                min="0"
+                max="3"
+                step="0.25"
+                value={svgTolerance}
+                onChange={(e) => setSvgTolerance(Number(e.target.value))}
+                className="flex-1 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+              />
+              <span className="text-[10px] font-mono text-stone-500 w-10 text-right">{svgTolerance.toFixed(2)}px</span>
+            </div>
+          )}
           <div className="flex gap-2 mb-4">
             <button
               onClick={onClear}
@@ -557,12 +1317,19 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               PNG
             </button>
              <button
-              onClick={onDownloadSvg}
+              onClick={() => onDownloadSvg({ mode: svgMode, tolerance: svgTolerance })}
               className="flex-1 flex items-center justify-center py-2 bg-stone-100 hover:bg-stone-200 text-stone-800 rounded-lg transition-colors text-sm font-medium"
             >
               <FileCode className="w-4 h-4 mr-2" />
               SVG
             </button>
+            <button
+              onClick={onDownloadPdf}
+              className="flex-1 flex items-center justify-center py-2 bg-stone-100 hover:bg-stone-200 text-stone-800 rounded-lg transition-colors text-sm font-medium"
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              PDF
+            </button>
           </div>
 
           {/* Credit Link */}
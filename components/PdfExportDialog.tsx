@@ -0,0 +1,145 @@
+import React from 'react';
+import { X, FileText, Download } from 'lucide-react';
+import { PdfExportOptions, PdfOrientation, PdfPageSize, PdfPlacement } from '../types';
+import { PDF_PAGE_SIZES, PDF_PAGE_SIZE_LABELS } from '../utils/pdfExport';
+
+interface PdfExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  options: PdfExportOptions;
+  onOptionsChange: (options: PdfExportOptions) => void;
+  onExport: (options: PdfExportOptions) => void;
+}
+
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ isOpen, onClose, options, onOptionsChange, onExport }) => {
+  if (!isOpen) return null;
+
+  const update = (next: Partial<PdfExportOptions>) => {
+    onOptionsChange({ ...options, ...next });
+  };
+
+  const handleExport = () => {
+    onExport(options);
+    onClose();
+  };
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${
+      active ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+    }`;
+
+  const size = PDF_PAGE_SIZES[options.pageSize];
+  const landscape = options.orientation === 'LANDSCAPE';
+  const pageWidth = landscape ? size.height : size.width;
+  const pageHeight = landscape ? size.width : size.height;
+
+  // Page preview scaled into a 120px box, with the margin drawn inside
+  const previewScale = 120 / Math.max(pageWidth, pageHeight);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-sm max-h-[85vh] overflow-y-auto overflow-x-hidden relative animate-in zoom-in-95 slide-in-from-bottom-4 duration-300"
+        onClick={e => e.stopPropagation()}
+        onPointerDown={e => e.stopPropagation()}
+      >
+        <div className="sticky top-0 right-0 z-10 flex items-center justify-between p-4 bg-gradient-to-b from-white via-white/80 to-transparent">
+          <h2 className="text-lg font-black text-stone-900 flex items-center">
+            <FileText className="w-5 h-5 mr-2 text-stone-600" /> PDF 저장
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full bg-stone-100 hover:bg-stone-200 text-stone-500 transition-colors shadow-sm"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 space-y-5">
+          {/* Page Size */}
+          <div>
+            <label className="text-xs font-bold uppercase tracking-wider text-stone-700 block mb-2">용지</label>
+            <div className="flex bg-stone-100 rounded-lg p-1">
+              {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map(p => (
+                <button key={p} onClick={() => update({ pageSize: p })} className={segmentClass(options.pageSize === p)}>
+                  {PDF_PAGE_SIZE_LABELS[p]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Orientation */}
+          <div>
+            <label className="text-xs font-bold uppercase tracking-wider text-stone-700 block mb-2">방향</label>
+            <div className="flex bg-stone-100 rounded-lg p-1">
+              {(['PORTRAIT', 'LANDSCAPE'] as PdfOrientation[]).map(o => (
+                <button key={o} onClick={() => update({ orientation: o })} className={segmentClass(options.orientation === o)}>
+                  {o === 'PORTRAIT' ? '세로' : '가로'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Placement */}
+          <div>
+            <label className="text-xs font-bold uppercase tracking-wider text-stone-700 block mb-2">배치</label>
+            <div className="flex bg-stone-100 rounded-lg p-1">
+              {(['CENTER', 'FIT'] as PdfPlacement[]).map(p => (
+                <button
+                  key={p}
+                  onClick={() => update({ placement: p })}
+                  className={segmentClass(options.placement === p)}
+                  title={p === 'CENTER' ? '화면 크기 그대로 가운데에 놓습니다 (넘치면 줄입니다)' : '여백 안을 가득 채우도록 키웁니다'}
+                >
+                  {p === 'CENTER' ? '가운데' : '맞춤'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Margin */}
+          <div>
+            <div className="flex items-center justify-between text-stone-700">
+              <span className="text-xs font-bold uppercase tracking-wider">여백</span>
+              <span className="text-xs font-mono">{options.margin}mm</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="60"
+              step="1"
+              value={options.margin}
+              onChange={(e) => update({ margin: Number(e.target.value) })}
+              className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+            />
+          </div>
+
+          {/* Preview */}
+          <div className="flex flex-col items-center">
+            <div
+              className="relative bg-[#fdfbf7] border border-stone-300 shadow-sm"
+              style={{ width: pageWidth * previewScale, height: pageHeight * previewScale }}
+            >
+              <div
+                className="absolute border border-dashed border-stone-400"
+                style={{
+                  inset: Math.min(options.margin * previewScale, (Math.min(pageWidth, pageHeight) * previewScale) / 2)
+                }}
+              />
+            </div>
+            <span className="text-[10px] text-stone-400 mt-2 font-mono">{pageWidth} × {pageHeight} mm</span>
+          </div>
+
+          <button
+            onClick={handleExport}
+            className="w-full flex items-center justify-center py-3 bg-stone-900 text-white rounded-xl font-bold hover:bg-stone-800 transition-colors"
+          >
+            <Download className="w-4 h-4 mr-2" /> 저장하기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfExportDialog;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { X, Image, Download, Crop } from 'lucide-react';
+import { PngBackground, PngExportOptions, PngSizeMode } from '../types';
+
+interface PngExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  options: PngExportOptions;
+  onOptionsChange: (options: PngExportOptions) => void;
+  onExport: (options: PngExportOptions) => Promise<void>;
+}
+
+const SCALE_OPTIONS = [1, 2, 4, 8];
+
+const PngExportDialog: React.FC<PngExportDialogProps> = ({ isOpen, onClose, options, onOptionsChange, onExport }) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (!isOpen) return null;
+
+  const update = (next: Partial<PngExportOptions>) => {
+    onOptionsChange({ ...options, ...next });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(options);
+      onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${
+      active ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-sm max-h-[85vh] overflow-y-auto overflow-x-hidden relative animate-in zoom-in-95 slide-in-from-bottom-4 duration-300"
+        onClick={e => e.stopPropagation()}
+        onPointerDown={e => e.stopPropagation()}
+      >
+        <div className="sticky top-0 right-0 z-10 flex items-center justify-between p-4 bg-gradient-to-b from-white via-white/80 to-transparent">
+          <h2 className="text-lg font-black text-stone-900 flex items-center">
+            <Image className="w-5 h-5 mr-2 text-stone-600" /> PNG 저장
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full bg-stone-100 hover:bg-stone-200 text-stone-500 transition-colors shadow-sm"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 space-y-5">
+          {/* Background */}
+          <div>
+            <label className="text-xs font-bold uppercase tracking-wider text-stone-700 block mb-2">배경</label>
+            <div className="flex bg-stone-100 rounded-lg p-1">
+              {(['PAPER', 'TRANSPARENT'] as PngBackground[]).map(b => (
+                <button key={b} onClick={() => update({ background: b })} className={segmentClass(options.background === b)}>
+                  {b === 'PAPER' ? '한지' : '투명'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Size */}
+          <div>
+            <label className="text-xs font-bold uppercase tracking-wider text-stone-700 block mb-2">크기</label>
+            <div className="flex bg-stone-100 rounded-lg p-1 mb-3">
+              {(['SCALE', 'PIXELS'] as PngSizeMode[]).map(m => (
+                <button key={m} onClick={() => update({ sizeMode: m })} className={segmentClass(options.sizeMode === m)}>
+                  {m === 'SCALE' ? '배율' : '픽셀 지정'}
+                </button>
+              ))}
+            </div>
+            {options.sizeMode === 'SCALE' ? (
+              <div className="flex gap-2">
+                {SCALE_OPTIONS.map(scale => (
+                  <button
+                    key={scale}
+                    onClick={() => update({ scale })}
+                    className={`flex-1 py-2 rounded-lg text-xs font-mono font-bold border transition-colors ${
+                      options.scale === scale ? 'bg-stone-800 text-white border-stone-800' : 'bg-white text-stone-600 border-stone-200 hover:bg-stone-50'
+                    }`}
+                  >
+                    {scale}×
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="100"
+                  max="16384"
+                  step="100"
+                  value={options.pixelSize}
+                  onChange={(e) => update({ pixelSize: Math.max(1, Number(e.target.value) || 0) })}
+                  className="flex-1 px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-stone-400"
+                />
+                <span className="text-xs text-stone-500 shrink-0">px (긴 변)</span>
+              </div>
+            )}
+            <p className="text-[10px] text-stone-400 mt-2 leading-relaxed">
+              획과 글씨를 원본 데이터로 다시 그리므로 크게 저장해도 흐려지지 않습니다.
+            </p>
+          </div>
+
+          {/* Crop */}
+          <div>
+            <button
+              onClick={() => update({ cropToContent: !options.cropToContent })}
+              className={`w-full flex items-center justify-center py-2 rounded-lg text-xs font-bold transition-colors ${
+                options.cropToContent ? 'bg-stone-800 text-white' : 'bg-stone-100 text-stone-500 hover:text-stone-700'
+              }`}
+            >
+              <Crop className="w-4 h-4 mr-2" /> 글씨에 맞춰 자르기
+            </button>
+            {options.cropToContent && (
+              <>
+                <div className="flex items-center justify-between text-stone-700 mt-3">
+                  <span className="text-xs font-bold uppercase tracking-wider">여백</span>
+                  <span className="text-xs font-mono">{options.padding}px</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="200"
+                  step="5"
+                  value={options.padding}
+                  onChange={(e) => update({ padding: Number(e.target.value) })}
+                  className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+                />
+              </>
+            )}
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full flex items-center justify-center py-3 bg-stone-900 text-white rounded-xl font-bold hover:bg-stone-800 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" /> {isExporting ? '저장 중...' : '저장하기'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PngExportDialog;
@@ -0,0 +1,302 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Gauge, Sparkles, Eraser, RotateCcw } from 'lucide-react';
+import { PointerKind, PressureCurve, PressureProfiles } from '../types';
+import {
+  POINTER_KINDS,
+  POINTER_KIND_LABELS,
+  DEFAULT_PRESSURE_CURVE,
+  evaluatePressureCurve,
+  suggestPressureCurve,
+  toPointerKind
+} from '../utils/pressureCurve';
+
+interface PressureCalibrationProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profiles: PressureProfiles;
+  onChange: (profiles: PressureProfiles) => void;
+}
+
+const EDITOR_SIZE = 160;
+const MIN_SAMPLES = 10;
+
+const PressureCalibration: React.FC<PressureCalibrationProps> = ({ isOpen, onClose, profiles, onChange }) => {
+  const [kind, setKind] = useState<PointerKind>('pen');
+  const [samples, setSamples] = useState<number[]>([]);
+  const [dragging, setDragging] = useState<'cp1' | 'cp2' | null>(null);
+
+  const padRef = useRef<HTMLCanvasElement>(null);
+  const lastPadPointRef = useRef<{ x: number; y: number; time: number } | null>(null);
+
+  const curve = profiles[kind];
+  const usesVelocity = kind !== 'pen';
+
+  const updateCurve = (next: Partial<PressureCurve>) => {
+    onChange({ ...profiles, [kind]: { ...curve, ...next } });
+  };
+
+  const clearPad = () => {
+    const canvas = padRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (canvas && ctx) ctx.clearRect(0, 0, canvas.width, canvas.height);
+    setSamples([]);
+  };
+
+  const handleKindChange = (next: PointerKind) => {
+    if (next === kind) return;
+    setKind(next);
+    clearPad();
+  };
+
+  // Match the pad's resolution to its layout size once the modal is shown
+  useEffect(() => {
+    if (!isOpen) return;
+    const canvas = padRef.current;
+    if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width;
+    canvas.height = rect.height;
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  // --- Curve editor ---
+  const toEditor = (p: { x: number; y: number }) => ({ x: p.x * EDITOR_SIZE, y: (1 - p.y) * EDITOR_SIZE });
+
+  const curvePath = (() => {
+    const parts: string[] = [];
+    for (let i = 0; i <= 40; i++) {
+      const input = i / 40;
+      const output = evaluatePressureCurve(curve, input);
+      const p = toEditor({ x: input, y: output });
+      parts.push(`${i === 0 ? 'M' : 'L'}${p.x.toFixed(1)},${p.y.toFixed(1)}`);
+    }
+    return parts.join(' ');
+  })();
+
+  const handleEditorPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragging) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, 1 - (e.clientY - rect.top) / rect.height));
+    updateCurve({ [dragging]: { x, y } });
+  };
+
+  // --- Scratch pad ---
+  const handlePadPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    handleKindChange(toPointerKind(e.pointerType));
+    const rect = e.currentTarget.getBoundingClientRect();
+    lastPadPointRef.current = { x: e.clientX - rect.left, y: e.clientY - rect.top, time: e.timeStamp };
+  };
+
+  const handlePadPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = lastPadPointRef.current;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!last || !ctx) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const nativeEvent: PointerEvent = e.nativeEvent;
+    // Browsers without coalesced events only report the dispatched one
+    const events = typeof nativeEvent.getCoalescedEvents === 'function' ? nativeEvent.getCoalescedEvents() : [nativeEvent];
+    const recorded: number[] = [];
+    let prev = last;
+
+    for (const ev of events) {
+      const point = { x: ev.clientX - rect.left, y: ev.clientY - rect.top, time: ev.timeStamp };
+      const dist = Math.hypot(point.x - prev.x, point.y - prev.y);
+      const timeDiff = point.time - prev.time;
+
+      let input: number;
+      if (usesVelocity) {
+        if (timeDiff <= 0) continue;
+        const velocity = dist / timeDiff;
+        recorded.push(velocity);
+        input = 1 - Math.min(1, velocity / curve.maxVelocity);
+      } else {
+        recorded.push(ev.pressure);
+        input = ev.pressure;
+      }
+
+      // Preview with the current curve, like the brush would respond
+      ctx.beginPath();
+      ctx.strokeStyle = '#1a1a1a';
+      ctx.lineCap = 'round';
+      ctx.lineWidth = 1 + evaluatePressureCurve(curve, input) * 14;
+      ctx.moveTo(prev.x, prev.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+      prev = point;
+    }
+
+    lastPadPointRef.current = prev;
+    if (recorded.length > 0) setSamples(s => [...s, ...recorded]);
+  };
+
+  const handlePadPointerUp = () => {
+    lastPadPointRef.current = null;
+  };
+
+  const handleSuggest = () => {
+    onChange({ ...profiles, [kind]: suggestPressureCurve(kind, samples, curve) });
+  };
+
+  const cp1 = toEditor(curve.cp1);
+  const cp2 = toEditor(curve.cp2);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[85vh] overflow-y-auto overflow-x-hidden relative animate-in zoom-in-95 slide-in-from-bottom-4 duration-300"
+        onClick={e => e.stopPropagation()}
+        onPointerDown={e => e.stopPropagation()}
+      >
+        <div className="sticky top-0 right-0 z-10 flex items-center justify-between p-4 bg-gradient-to-b from-white via-white/80 to-transparent">
+          <h2 className="text-lg font-black text-stone-900 flex items-center">
+            <Gauge className="w-5 h-5 mr-2 text-stone-600" /> 필압 보정
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full bg-stone-100 hover:bg-stone-200 text-stone-500 transition-colors shadow-sm"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 space-y-5">
+          {/* Device Tabs */}
+          <div className="flex bg-stone-100 rounded-lg p-1">
+            {POINTER_KINDS.map(k => (
+              <button
+                key={k}
+                onClick={() => handleKindChange(k)}
+                className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${
+                  kind === k ? 'bg-white shadow-sm text-stone-900' : 'text-stone-400 hover:text-stone-600'
+                }`}
+              >
+                {POINTER_KIND_LABELS[k]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-4">
+            {/* Curve Editor */}
+            <svg
+              width={EDITOR_SIZE}
+              height={EDITOR_SIZE}
+              className="shrink-0 bg-stone-50 border border-stone-200 rounded-lg touch-none"
+              onPointerMove={handleEditorPointerMove}
+              onPointerUp={() => setDragging(null)}
+              onPointerLeave={() => setDragging(null)}
+            >
+              <line x1={0} y1={EDITOR_SIZE} x2={EDITOR_SIZE} y2={0} stroke="#e7e5e4" strokeDasharray="4 4" />
+              <line x1={0} y1={EDITOR_SIZE} x2={cp1.x} y2={cp1.y} stroke="#a8a29e" />
+              <line x1={EDITOR_SIZE} y1={0} x2={cp2.x} y2={cp2.y} stroke="#a8a29e" />
+              <path d={curvePath} fill="none" stroke="#1c1917" strokeWidth={2} />
+              {(['cp1', 'cp2'] as const).map(key => {
+                const p = key === 'cp1' ? cp1 : cp2;
+                return (
+                  <circle
+                    key={key}
+                    cx={p.x}
+                    cy={p.y}
+                    r={7}
+                    className="fill-white stroke-stone-800 cursor-grab"
+                    strokeWidth={2}
+                    onPointerDown={(e) => {
+                      (e.currentTarget.ownerSVGElement as SVGSVGElement).setPointerCapture(e.pointerId);
+                      setDragging(key);
+                    }}
+                  />
+                );
+              })}
+            </svg>
+
+            {/* Range Controls */}
+            <div className="flex-1 space-y-3 text-stone-700">
+              <p className="text-[10px] text-stone-400 leading-relaxed">
+                {usesVelocity
+                  ? '가로축: 느림(오른쪽) ~ 빠름(왼쪽) / 세로축: 획 굵기'
+                  : '가로축: 펜 압력 / 세로축: 획 굵기'}
+              </p>
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-bold">최소</span>
+                <span className="text-xs font-mono">{(curve.min * 100).toFixed(0)}%</span>
+              </div>
+              <input
+                type="range" min="0" max="1" step="0.05" value={curve.min}
+                onChange={(e) => updateCurve({ min: Math.min(Number(e.target.value), curve.max) })}
+                className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+              />
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-bold">최대</span>
+                <span className="text-xs font-mono">{(curve.max * 100).toFixed(0)}%</span>
+              </div>
+              <input
+                type="range" min="0" max="1" step="0.05" value={curve.max}
+                onChange={(e) => updateCurve({ max: Math.max(Number(e.target.value), curve.min) })}
+                className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+              />
+              {usesVelocity && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-bold">최고 속도</span>
+                    <span className="text-xs font-mono">{curve.maxVelocity.toFixed(1)}px/ms</span>
+                  </div>
+                  <input
+                    type="range" min="0.2" max="8" step="0.1" value={curve.maxVelocity}
+                    onChange={(e) => updateCurve({ maxVelocity: Number(e.target.value) })}
+                    className="w-full h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-stone-800"
+                  />
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Scratch Pad */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-xs font-bold uppercase tracking-wider text-stone-700">연습장</label>
+              <span className="text-[10px] font-mono text-stone-400">샘플 {samples.length}개</span>
+            </div>
+            <canvas
+              ref={padRef}
+              className="w-full h-32 bg-[#fdfbf7] border border-dashed border-stone-300 rounded-lg touch-none cursor-crosshair"
+              onPointerDown={handlePadPointerDown}
+              onPointerMove={handlePadPointerMove}
+              onPointerUp={handlePadPointerUp}
+              onPointerCancel={handlePadPointerUp}
+            />
+            <p className="text-[10px] text-stone-400 mt-1">
+              평소처럼 몇 획을 그어 보세요. 기록된 {usesVelocity ? '속도' : '압력'}로 알맞은 곡선을 추천합니다.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={clearPad}
+              className="flex items-center justify-center px-3 py-2 bg-stone-100 text-stone-600 rounded-lg hover:bg-stone-200 text-xs font-medium"
+            >
+              <Eraser className="w-3.5 h-3.5 mr-1.5" /> 지우기
+            </button>
+            <button
+              onClick={() => onChange({ ...profiles, [kind]: { ...DEFAULT_PRESSURE_CURVE } })}
+              className="flex items-center justify-center px-3 py-2 bg-stone-100 text-stone-600 rounded-lg hover:bg-stone-200 text-xs font-medium"
+            >
+              <RotateCcw className="w-3.5 h-3.5 mr-1.5" /> 기본값
+            </button>
+            <button
+              onClick={handleSuggest}
+              disabled={samples.length < MIN_SAMPLES}
+              className="flex-1 flex items-center justify-center px-3 py-2 bg-stone-900 text-white rounded-lg hover:bg-stone-800 text-xs font-bold disabled:opacity-40"
+            >
+              <Sparkles className="w-3.5 h-3.5 mr-1.5" /> 추천 곡선 적용
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PressureCalibration;
@@ -0,0 +1,119 @@
+import React, { useRef, useState } from 'react';
+import { TextBox, ViewState } from '../types';
+
+interface TextBoxOverlayProps {
+  box: TextBox;
+  viewState: ViewState;
+  selected: boolean;
+  onSelect: () => void;
+  onChange: (box: TextBox) => void;
+}
+
+type Handle = 'MOVE' | 'NW' | 'NE' | 'SW' | 'SE';
+
+const MIN_SIZE = 40;
+
+const HANDLES: { handle: Handle; className: string }[] = [
+  { handle: 'NW', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { handle: 'NE', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { handle: 'SW', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { handle: 'SE', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' }
+];
+
+/**
+ * Dashed frame over the canvas that selects, moves and resizes a text box.
+ * The box follows the pointer locally and is only reported when the drag
+ * ends, so the text is laid out once per gesture.
+ */
+const TextBoxOverlay: React.FC<TextBoxOverlayProps> = ({ box, viewState, selected, onSelect, onChange }) => {
+  const [draft, setDraft] = useState<TextBox | null>(null);
+  const dragRef = useRef<{ handle: Handle; startX: number; startY: number; start: TextBox } | null>(null);
+
+  const shown = draft ?? box;
+
+  const handlePointerDown = (handle: Handle) => (e: React.PointerEvent) => {
+    // Keep the canvas from starting a stroke or a pinch
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    if (!selected) onSelect();
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, start: box };
+    setDraft(box);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    // Screen pixels to canvas units
+    const dx = (e.clientX - drag.startX) / viewState.scale;
+    const dy = (e.clientY - drag.startY) / viewState.scale;
+    const { x, y, width, height } = drag.start;
+
+    if (drag.handle === 'MOVE') {
+      setDraft({ x: x + dx, y: y + dy, width, height });
+      return;
+    }
+
+    const left = drag.handle === 'NW' || drag.handle === 'SW';
+    const top = drag.handle === 'NW' || drag.handle === 'NE';
+    const newWidth = Math.max(MIN_SIZE, left ? width - dx : width + dx);
+    const newHeight = Math.max(MIN_SIZE, top ? height - dy : height + dy);
+    setDraft({
+      x: left ? x + width - newWidth : x,
+      y: top ? y + height - newHeight : y,
+      width: newWidth,
+      height: newHeight
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    if (!dragRef.current) return;
+    (e.currentTarget as Element).releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+    // A plain click only selects
+    if (draft && (draft.x !== box.x || draft.y !== box.y || draft.width !== box.width || draft.height !== box.height)) {
+      onChange(draft);
+    }
+    setDraft(null);
+  };
+
+  const pointerHandlers = {
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp
+  };
+
+  return (
+    <div
+      className="absolute inset-0 origin-top-left pointer-events-none"
+      style={{
+        transform: `translate(${viewState.offset.x}px, ${viewState.offset.y}px) scale(${viewState.scale})`,
+        zIndex: 3
+      }}
+    >
+      <div
+        className={`absolute border border-dashed pointer-events-auto cursor-move touch-none ${
+          selected ? 'border-stone-500/70 bg-stone-500/5' : 'border-stone-400/40 hover:border-stone-500/70'
+        }`}
+        style={{ left: shown.x, top: shown.y, width: shown.width, height: shown.height }}
+        onPointerDown={handlePointerDown('MOVE')}
+        {...pointerHandlers}
+      >
+        {selected && HANDLES.map(({ handle, className }) => (
+          <div
+            key={handle}
+            className={`absolute w-3 h-3 bg-white border border-stone-600 rounded-sm ${className}`}
+            style={{ transform: `scale(${1 / viewState.scale})` }}
+            onPointerDown={handlePointerDown(handle)}
+            {...pointerHandlers}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TextBoxOverlay;
@@ -44,6 +44,12 @@ const UserGuide: React.FC<UserGuideProps> = ({ isOpen, onClose }) => {
               <ul className="list-disc list-inside text-sm text-stone-600 space-y-2 leading-relaxed marker:text-stone-400">
                 <li><strong className="text-stone-800">속도 감지</strong>: 빠르게 그으면 획이 얇아지고, 천천히 그으면 굵어지는 실제 붓의 물리적 특성을 반영합니다.</li>
                 <li><strong className="text-stone-800">갈필(Roughness)</strong>: 붓의 거친 질감을 조절하여 마른 붓 효과(비백)를 낼 수 있습니다.</li>
+                <li><strong className="text-stone-800">먹 번짐</strong>: 종이 흡수력과 먹물 물기를 높이면 천천히 긋거나 멈춘 자리에서 먹이 한지에 스며들듯 번집니다.</li>
+                <li><strong className="text-stone-800">붓 종류</strong>: 둥근 붓, 붓털(먹이 마르면 털 자국이 갈라짐), 평붓, 질감 붓 중에서 고를 수 있으며 SVG로도 그대로 저장됩니다.</li>
+                <li><strong className="text-stone-800">획의 모양</strong>: 획의 시작(기필)을 눌러 머리를 만들고, 꺾이는 곳(전절)을 두텁게 하며, 끝(수필)을 붓끝 빼기나 갈고리로 맺습니다. 프리셋마다 따로 저장됩니다.</li>
+                <li><strong className="text-stone-800">먹 머금기</strong>: 획을 그을수록 붓의 먹이 줄어 흐려지고 갈라집니다. [먹 찍기]로 다시 채울 수 있습니다.</li>
+                <li><strong className="text-stone-800">펜 기울기</strong>: Apple Pencil·와콤 펜의 기울기와 회전에 따라 붓끝 방향과 눌림이 바뀝니다. 세우면 둥글게(중봉), 눕히면 납작하게(측봉) 그려집니다.</li>
+                <li><strong className="text-stone-800">필압 보정</strong>: 펜·마우스·터치마다 필압(속도) 곡선을 따로 저장합니다. 연습장에 몇 획을 그으면 손에 맞는 곡선을 추천해 줍니다.</li>
                 <li><strong className="text-stone-800">프리셋 저장</strong>: 나만의 브러시 설정을 저장하여 언제든 다시 불러올 수 있습니다.</li>
               </ul>
             </section>
@@ -56,7 +62,12 @@ const UserGuide: React.FC<UserGuideProps> = ({ isOpen, onClose }) => {
               <ul className="list-disc list-inside text-sm text-stone-600 space-y-2 leading-relaxed marker:text-stone-400">
                 <li><strong className="text-stone-800">스타일 변환</strong>: 텍스트를 입력하면 서예 스타일로 실시간 변환됩니다.</li>
                 <li><strong className="text-stone-800">서체 선택</strong>: 손글씨, 펜글씨, 붓글씨 등 다양한 느낌을 선택해보세요.</li>
+                <li><strong className="text-stone-800">내 글꼴</strong>: 갖고 있는 TTF·OTF·WOFF·WOFF2 글꼴 파일을 불러와 서체로 쓸 수 있습니다. 이 브라우저에 저장되므로 다음에도, 인터넷이 없어도 그대로 쓸 수 있습니다. 글꼴을 받는 중이면 다 받은 뒤에 그리고, 받지 못하면 패널에 알려 줍니다.</li>
                 <li><strong className="text-stone-800">굵기 옵션</strong>: '얇게'는 섬세한 펜화, '굵게'는 임팩트 있는 로고 작업에 적합합니다.</li>
+                <li><strong className="text-stone-800">세로쓰기</strong>: 위에서 아래로, 오른쪽 줄부터 씁니다. 영문은 옆으로 눕히고 두 자리 숫자는 한 칸에 모으며, 괄호·문장부호도 세로에 맞게 놓습니다. 안내선도 세로 칸으로 바뀝니다.</li>
+                <li><strong className="text-stone-800">배치와 글상자</strong>: 왼쪽·가운데·오른쪽으로 맞추고, 글상자를 만들어 끌어 옮기거나 모서리로 크기를 바꾸면 그 안에 글씨를 씁니다. '맞추기'를 켜면 글자 크기가 글상자에 꽉 차게 정해집니다.</li>
+                <li><strong className="text-stone-800">여러 글 놓기</strong>: 본문, 낙관 글귀, 날짜처럼 글을 여러 개 놓을 수 있습니다. 글 목록에서 글을 고르면 서체·크기·색을 그 글에만 바꾸고, '새 글'로 하나 더 추가합니다.</li>
+                <li><strong className="text-stone-800">나타나는 방식</strong>: '획순대로 쓰기'는 글자마다 획을 따라 써 내려가고, '흩뿌리기'는 흩어진 점들이 모여 글씨가 됩니다.</li>
               </ul>
             </section>
 
@@ -78,16 +89,26 @@ const UserGuide: React.FC<UserGuideProps> = ({ isOpen, onClose }) => {
                 <Download className="w-5 h-5 mr-2 text-stone-600" />
                 저장 및 활용
               </h3>
-              <div className="grid grid-cols-2 gap-3">
+              <div className="grid grid-cols-3 gap-3">
                  <div className="bg-white border border-stone-200 p-3 rounded-lg text-center">
                     <span className="block font-bold text-stone-800 text-sm mb-1">PNG</span>
-                    <span className="text-xs text-stone-500">배경이 포함된 이미지<br/>SNS 공유용</span>
+                    <span className="text-xs text-stone-500">한지·투명 배경, 인쇄용 고해상도<br/>글씨에 맞춰 자르기</span>
                  </div>
                  <div className="bg-white border border-stone-200 p-3 rounded-lg text-center">
                     <span className="block font-bold text-stone-800 text-sm mb-1">SVG</span>
-                    <span className="text-xs text-stone-500">투명 배경 벡터<br/>디자인/인쇄용</span>
+                    <span className="text-xs text-stone-500">투명 배경 벡터<br/>외곽선: 간판·커팅용</span>
+                 </div>
+                 <div className="bg-white border border-stone-200 p-3 rounded-lg text-center">
+                    <span className="block font-bold text-stone-800 text-sm mb-1">PDF</span>
+                    <span className="text-xs text-stone-500">A4·A3·엽서·족자<br/>벡터 인쇄용</span>
                  </div>
               </div>
+              <p className="text-xs text-stone-500 mt-3 leading-relaxed">
+                <strong className="text-stone-700">획순 재생</strong>: ▶ 버튼으로 쓴 순서대로 다시 그려 볼 수 있고, 같은 속도로 움직이는 GIF나 WebM 영상으로도 저장합니다.
+              </p>
+              <p className="text-xs text-stone-500 mt-2 leading-relaxed">
+                <strong className="text-stone-700">시드</strong>: 갈필 자국, 번짐, 점의 흩어짐은 시드에서 정해지므로 같은 시드와 설정이면 언제나 똑같이 그려집니다. 시드는 프리셋과 저장한 파일(파일 이름, SVG·PDF 정보)에 함께 남습니다. 자물쇠로 고정하면 새 글과 랜덤에도 같은 시드를 씁니다.
+              </p>
             </section>
           </div>
           
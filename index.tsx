@@ -1,6 +1,12 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+// The built-in text faces ship with the app (split by character range, so
+// only the subsets a text needs are fetched)
+import '@fontsource/nanum-pen-script/400.css';
+import '@fontsource/hi-melody/400.css';
+import '@fontsource/dancing-script/400.css';
+import '@fontsource/noto-serif-kr/900.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -4,20 +4,50 @@ export interface Point {
   y: number;
   pressure: number;
   time: number;
+  // Stylus orientation, only present when the pen reports it
+  tiltX?: number; // -90 to 90 degrees
+  tiltY?: number; // -90 to 90 degrees
+  twist?: number; // 0 to 359 degrees (barrel rotation)
 }
 
-export type FontStyle = 'HAND' | 'PEN' | 'BRUSH';
+export type FontStyle = 'HAND' | 'PEN' | 'BRUSH' | 'CUSTOM'; // CUSTOM: a font file the user loaded
 export type WeightOption = 'THIN' | 'NORMAL' | 'BOLD';
+export type StabilizerMode = 'OFF' | 'AVERAGE' | 'ROPE' | 'PULLED';
+export type TipAngleMode = 'FIXED' | 'DIRECTION';
+export type InkConcentration = 'DARK' | 'MEDIUM' | 'LIGHT'; // 농묵 / 중묵 / 담묵
+export type TipType = 'ELLIPSE' | 'BRISTLE' | 'CHISEL' | 'TEXTURE';
+export type StrokeExit = 'NONE' | 'TAPER' | 'HOOK'; // 수필: blunt lift, swept tail, hook
+export type WritingDirection = 'HORIZONTAL' | 'VERTICAL'; // 가로쓰기 / 세로쓰기 (columns run right to left)
+export type TextAlignment = 'LEFT' | 'CENTER' | 'RIGHT'; // Vertical writing: top, middle, bottom of each column
+export type TextReveal = 'WRITE' | 'DISSOLVE'; // Generated text appears in stroke order, or as scattered particles
 
 export interface BrushSettings {
   size: number; // Particle radius for brush / Stroke width
   roughness: number; // Simulates 'Bi-baek' (dry brush)
   taper: number;     // Controls sharpness of stroke ends (0 = Blunt, 1 = Sharp)
-  color: string;
+  color: string;     // Base ink color, diluted according to concentration
+  concentration: InkConcentration;
+  tipType: TipType;  // Shape stamped along the stroke
   roundness: number; // 0.1 to 1.0 (Flat to Round)
   angle: number;     // 0 to 180 degrees
+  tipAngleMode: TipAngleMode; // Without stylus data: fixed angle, or angle relative to stroke direction
+  followStylus: boolean;      // Pen tilt/twist drives the tip angle and flattening
   hardness: number;  // 0.1 (Soft) to 1.0 (Hard)
   spacing: number;   // 0.0 (Continuous) to 1.0 (Dotted)
+  smoothing: number; // 0.0 (Raw input) to 1.0 (Catmull-Rom curve)
+  stabilizer: StabilizerMode; // Lazy-brush algorithm applied to pointer input
+  stabilizerStrength: number; // 0.0 (Off) to 1.0 (Strongest lag)
+
+  // Stroke shape (기필 / 전절 / 수필)
+  entryPress: number;  // 0.0 (None) to 1.0 (Heavy press-in blob at the stroke start)
+  cornerPress: number; // 0.0 (None) to 1.0 (Strong thickening at sharp turns)
+  exitStyle: StrokeExit;
+
+  // Ink & Paper (번짐)
+  absorbency: number; // 0.0 (Sized paper) to 1.0 (Raw 한지)
+  wetness: number;    // 0.0 (Dry ink) to 1.0 (Watery ink)
+  inkLoad: number;     // Ink the brush picks up when dipped, 0.1 (Little) to 1.0 (Full)
+  inkDepletion: number; // 0.0 (Never runs dry) to 1.0 (Dry after ~1000px)
   
   // Text Specific Settings
   letterSpacing: number; // Spacing between letters for generated text
@@ -25,12 +55,96 @@ export interface BrushSettings {
   slant: number;     // Text slant/italic (-0.5 to 0.5 usually)
   fontSize: number;  // Font size for generated text
   fontStyle: FontStyle;
+  customFontId: string | null; // User font drawn with when fontStyle is CUSTOM
   weightOption: WeightOption;
+  writingDirection: WritingDirection;
+  textAlign: TextAlignment;
+  fitToBox: boolean; // Font size is chosen so the text fills its box
+  textReveal: TextReveal;
+
+  // Randomness (dry-brush gaps, jitter, particle order, the dice)
+  seed: number;        // Same seed and settings always render the same way
+  seedLocked: boolean; // Keep the seed instead of re-rolling it for new text and dice rolls
   
   // Tools
   isEraser: boolean;
 }
 
+export type PointerKind = 'pen' | 'mouse' | 'touch';
+
+// Per-device response curve. The bezier runs from (0, 0) to (1, 1) like CSS
+// cubic-bezier(); its output is then scaled into [min, max].
+export interface PressureCurve {
+  cp1: { x: number; y: number };
+  cp2: { x: number; y: number };
+  min: number;
+  max: number;
+  maxVelocity: number; // Mouse/touch: speed (px/ms) treated as the lightest touch
+}
+
+export type PressureProfiles = Record<PointerKind, PressureCurve>;
+
+export type SvgExportMode = 'OUTLINE' | 'PARTICLES';
+
+export interface SvgExportOptions {
+  mode: SvgExportMode; // One filled outline per stroke, or every stamp as its own shape
+  tolerance: number;   // Outline simplification in px (0 keeps every traced point)
+}
+
+export type PngBackground = 'TRANSPARENT' | 'PAPER';
+export type PngSizeMode = 'SCALE' | 'PIXELS';
+
+export interface PngExportOptions {
+  background: PngBackground;
+  sizeMode: PngSizeMode;
+  scale: number;          // Output pixels per canvas unit (1 = on-screen size at 1x)
+  pixelSize: number;      // Exact length of the longer side in px, e.g. 4000 for print
+  cropToContent: boolean;
+  padding: number;        // Margin kept around the content when cropping, in canvas units
+}
+
+export type PdfPageSize = 'A4' | 'A3' | 'POSTCARD' | 'SCROLL';
+export type PdfOrientation = 'PORTRAIT' | 'LANDSCAPE';
+export type PdfPlacement = 'CENTER' | 'FIT';
+
+export interface PdfExportOptions {
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+  margin: number;          // mm on every side
+  placement: PdfPlacement; // Actual size centered (shrunk only if too large), or scaled to fill the page
+}
+
+// Area generated text is laid out in, in canvas units
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A piece of generated text. Like a stroke, it keeps the settings it was
+// written with, so each block has its own style, size and color.
+export interface TextBlock {
+  id: string;
+  text: string;
+  box: TextBox | null; // null: laid out across the whole canvas
+  settings: BrushSettings;
+}
+
+// A font file the user loaded. The file itself is kept in IndexedDB.
+export interface UserFont {
+  id: string;
+  name: string;
+}
+
+export type FontLoadStatus = 'LOADING' | 'READY' | 'ERROR';
+
+// Fonts generated text is waiting on, or could not get
+export interface FontLoadState {
+  status: FontLoadStatus;
+  families: string[]; // Loading fonts, or the ones that failed when nothing is loading
+}
+
 export interface GeneratedPhrase {
   korean: string;
   meaning: string;
@@ -50,4 +164,15 @@ export interface Preset {
   id: string;
   name: string;
   settings: BrushSettings;
-}
\ No newline at end of file
+}
+
+// A single hand-drawn stroke. The canvas is re-rendered from these,
+// so the raw input and the settings at draw time are all that is stored.
+export interface Stroke {
+  id: string;
+  points: Point[];
+  settings: BrushSettings;
+  seed: number; // Seeds the stroke's PRNG so dry-brush gaps replay identically
+  ink: number;  // Ink load the brush carried when the stroke started
+  pressureCurve: PressureCurve; // Calibration of the input device that drew it
+}
@@ -1,4 +1,5 @@
-import { Point, BrushSettings } from '../types';
+import { Point, BrushSettings, PressureCurve } from '../types';
+import { DEFAULT_PRESSURE_CURVE, evaluatePressureCurve } from './pressureCurve';
 
 /**
  * Calculates the distance between two points
@@ -14,9 +15,33 @@ export const getAngle = (p1: Point, p2: Point): number => {
   return Math.atan2(p2.y - p1.y, p2.x - p1.x);
 };
 
+const toRad = (deg: number) => deg * (Math.PI / 180);
+
+/**
+ * Interpolates between two angles in degrees along the shorter arc
+ */
+const lerpAngle = (a: number, b: number, t: number): number => {
+  const diff = ((b - a + 540) % 360) - 180;
+  return (a + diff * t + 360) % 360;
+};
+
+/**
+ * Interpolates the optional stylus fields of two points
+ */
+export const lerpStylus = (p1: Point, p2: Point, t: number): Partial<Point> => {
+  const stylus: Partial<Point> = {};
+  if (p1.tiltX !== undefined && p2.tiltX !== undefined) stylus.tiltX = p1.tiltX + (p2.tiltX - p1.tiltX) * t;
+  if (p1.tiltY !== undefined && p2.tiltY !== undefined) stylus.tiltY = p1.tiltY + (p2.tiltY - p1.tiltY) * t;
+  if (p1.twist !== undefined && p2.twist !== undefined) stylus.twist = lerpAngle(p1.twist, p2.twist, t);
+  return stylus;
+};
+
 /**
  * Spline interpolation to smooth out the mouse/touch input
- * Returns a set of interpolated points between p1 and p2 using control points
+ * Returns the points of a cardinal (Catmull-Rom) spline between p2 and p3,
+ * using p1 and p4 as control points. Both ends are included.
+ * Tension 0.5 is the classic Catmull-Rom curve, 0 collapses to a straight line.
+ * Pressure, time and stylus tilt are interpolated linearly so velocity stays monotonic.
  */
 export const getSplinePoints = (
   p1: Point,
@@ -26,10 +51,111 @@ export const getSplinePoints = (
   tension: number = 0.5,
   numOfSegments: number = 10
 ): Point[] => {
-  // Simplified Catmull-Rom spline or Bezier implementation could go here.
-  // For performance in this demo, we will use linear interpolation with 
-  // dynamic density based on speed.
-  return []; 
+  const segments = Math.max(1, Math.floor(numOfSegments));
+
+  // Tangents at p2 and p3
+  const t1x = (p3.x - p1.x) * tension;
+  const t1y = (p3.y - p1.y) * tension;
+  const t2x = (p4.x - p2.x) * tension;
+  const t2y = (p4.y - p2.y) * tension;
+
+  const points: Point[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = i / segments;
+    const t2 = t * t;
+    const t3 = t2 * t;
+
+    // Hermite basis functions
+    const h1 = 2 * t3 - 3 * t2 + 1;
+    const h2 = -2 * t3 + 3 * t2;
+    const h3 = t3 - 2 * t2 + t;
+    const h4 = t3 - t2;
+
+    points.push({
+      x: h1 * p2.x + h2 * p3.x + h3 * t1x + h4 * t2x,
+      y: h1 * p2.y + h2 * p3.y + h3 * t1y + h4 * t2y,
+      pressure: p2.pressure + (p3.pressure - p2.pressure) * t,
+      time: p2.time + (p3.time - p2.time) * t,
+      ...lerpStylus(p2, p3, t)
+    });
+  }
+  return points;
+};
+
+/**
+ * Orientation of the brush tip ellipse.
+ * A stylus that reports tilt lays the tip along the direction it leans and
+ * flattens it the further it leans (측봉), an upright pen gives a round tip
+ * (중봉). Barrel twist rotates the tip. Without stylus data the tip uses the
+ * fixed brush angle, or that angle relative to the stroke direction.
+ */
+export const getTipOrientation = (
+  point: Point,
+  settings: BrushSettings,
+  strokeAngle: number
+): { rotation: number; roundness: number } => {
+  const baseAngle = toRad(settings.angle);
+  const fallbackRotation = settings.tipAngleMode === 'DIRECTION' ? strokeAngle + baseAngle : baseAngle;
+  const fallback = { rotation: fallbackRotation, roundness: settings.roundness };
+
+  if (!settings.followStylus) return fallback;
+
+  const hasTilt = point.tiltX !== undefined && point.tiltY !== undefined;
+  const hasTwist = point.twist !== undefined;
+  if (!hasTilt && !hasTwist) return fallback;
+
+  let rotation = fallbackRotation;
+  let roundness = settings.roundness;
+
+  if (hasTilt) {
+    const tanX = Math.tan(toRad(point.tiltX!));
+    const tanY = Math.tan(toRad(point.tiltY!));
+    const lean = Math.sqrt(tanX * tanX + tanY * tanY);
+
+    // 0 = upright, 1 = lying flat on the paper
+    const tilt = 1 - Math.atan2(1, lean) / (Math.PI / 2);
+    if (lean > 0) rotation = Math.atan2(tanY, tanX);
+    roundness = settings.roundness + (1 - settings.roundness) * (1 - tilt);
+  }
+
+  if (hasTwist) {
+    rotation = (hasTilt ? rotation : baseAngle) + toRad(point.twist!);
+  }
+
+  return { rotation, roundness };
+};
+
+/**
+ * Opacity of the ink laid down for a given ink load (0 = dry, 1 = fully loaded).
+ * A loaded brush stays dark for most of its load and only fades near empty.
+ */
+export const getInkOpacity = (inkLevel: number): number => {
+  const MIN_OPACITY = 0.3;
+  return MIN_OPACITY + (1 - MIN_OPACITY) * Math.min(1, Math.max(0, inkLevel) * 2);
+};
+
+/**
+ * Opacity for each stamp of a stroke meant to show at `opacity`. Stamps are
+ * spaced much closer than their size, so every point of the stroke is covered
+ * by several of them; each is made lighter so that together they build up to
+ * `opacity` instead of compounding to solid ink. The overlap is the tip's
+ * extent along the direction of travel over the spacing.
+ */
+export const getStampOpacity = (
+  opacity: number,
+  radiusX: number,
+  radiusY: number,
+  rotation: number,
+  direction: number,
+  stepSize: number
+): number => {
+  const angle = direction - rotation;
+  const extent = 2 / Math.sqrt(
+    Math.pow(Math.cos(angle) / Math.max(0.1, radiusX), 2) + Math.pow(Math.sin(angle) / Math.max(0.1, radiusY), 2)
+  );
+  const overlap = extent / stepSize;
+  if (opacity >= 1 || overlap <= 1) return opacity;
+  return 1 - Math.pow(1 - opacity, 1 / overlap);
 };
 
 /**
@@ -39,7 +165,9 @@ export const getSplinePoints = (
 export const calculateBrushPhysics = (
   lastPoint: Point,
   currentPoint: Point,
-  settings: BrushSettings
+  settings: BrushSettings,
+  inkLevel: number = 1,
+  pressureCurve: PressureCurve = DEFAULT_PRESSURE_CURVE
 ) => {
   const dist = getDistance(lastPoint, currentPoint);
   const timeDiff = currentPoint.time - lastPoint.time;
@@ -56,16 +184,16 @@ export const calculateBrushPhysics = (
   // Check if pressure is valid (from touch input). 
   // We treat -1 as "no pressure data" (e.g. Mouse).
   if (currentPoint.pressure >= 0 && currentPoint.pressure <= 1) {
-    pressureInput = currentPoint.pressure;
+    pressureInput = evaluatePressureCurve(pressureCurve, currentPoint.pressure);
   } else {
-    // Simulate pressure based on velocity (Mouse)
+    // Simulate pressure based on velocity (Mouse / Touch)
     // Faster = Thinner = Lower Pressure
-    const maxVelocity = 2.5; 
+    const maxVelocity = pressureCurve.maxVelocity > 0 ? pressureCurve.maxVelocity : DEFAULT_PRESSURE_CURVE.maxVelocity;
     const velocityRatio = Math.min(1, velocity / maxVelocity);
     
     // Stationary (v=0) -> Pressure 1.0 (Thick)
     // Fast (v=max) -> Pressure 0.0 (Thin)
-    pressureInput = 1 - velocityRatio;
+    pressureInput = evaluatePressureCurve(pressureCurve, 1 - velocityRatio);
   }
 
   // Taper controls how much the pressure/velocity affects the size.
@@ -77,7 +205,7 @@ export const calculateBrushPhysics = (
     dist,
     angle: getAngle(lastPoint, currentPoint),
     size: targetSize,
-    opacity: 1.0, 
+    opacity: getInkOpacity(inkLevel),
     velocity
   };
 };
\ No newline at end of file
@@ -0,0 +1,252 @@
+import { TipType } from '../types';
+import { createRandom, RandomFn } from './random';
+import { drawEllipseStamp, drawRectStamp, getSvgFill, StampTarget } from './stamp';
+
+export const TIP_TYPES: TipType[] = ['ELLIPSE', 'BRISTLE', 'CHISEL', 'TEXTURE'];
+
+export const TIP_TYPE_LABELS: Record<TipType, string> = {
+  ELLIPSE: '둥근 붓',
+  BRISTLE: '붓털',
+  CHISEL: '평붓',
+  TEXTURE: '질감'
+};
+
+const BRISTLE_COUNT = 16;
+const TEXTURE_SIZE = 64;
+const TEXTURE_MASK_ID = 'seoye-tip-grain';
+
+/**
+ * One hair of a bristle bundle. Each keeps its place in the bundle for the
+ * whole stroke, so the hairs leave separate tracks.
+ */
+export interface Bristle {
+  across: number; // -1 to 1 along the tip's width
+  along: number;  // -1 to 1 along the tip's thickness
+  width: number;  // Hair radius relative to the tip radius
+  dryAt: number;  // Ink level below which this hair stops leaving ink
+}
+
+/**
+ * What a tip may read or keep between stamps of one stroke
+ */
+export interface TipContext {
+  random: RandomFn;
+  ink: number;
+  bristles?: Bristle[];
+}
+
+const createBristles = (random: RandomFn): Bristle[] => {
+  return Array.from({ length: BRISTLE_COUNT }, (_, i) => ({
+    // Spread evenly across the width, jittered so the tracks aren't a comb
+    across: -1 + (2 * (i + 0.5)) / BRISTLE_COUNT + (random() - 0.5) * 0.1,
+    along: (random() - 0.5) * 0.8,
+    width: 0.1 + random() * 0.08,
+    dryAt: random() * 0.6
+  }));
+};
+
+/**
+ * A bundle of independent hairs. As the brush runs low on ink the hairs drop
+ * out one by one, splitting the stroke into separate lines (비백).
+ */
+const drawBristleStamp = (
+  target: StampTarget,
+  tip: TipContext,
+  x: number,
+  y: number,
+  rx: number,
+  ry: number,
+  rotation: number,
+  color: string,
+  opacity: number,
+  isEraser: boolean
+) => {
+  if (!tip.bristles) tip.bristles = createBristles(tip.random);
+
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+
+  tip.bristles.forEach(hair => {
+    if (!isEraser && tip.ink < hair.dryAt) return;
+
+    const dx = hair.across * rx;
+    const dy = hair.along * ry;
+    const hairRadius = Math.max(0.4, rx * hair.width);
+
+    drawEllipseStamp(
+      target,
+      x + dx * cos - dy * sin,
+      y + dx * sin + dy * cos,
+      hairRadius,
+      hairRadius,
+      rotation,
+      color,
+      opacity,
+      isEraser
+    );
+  });
+};
+
+/**
+ * A flat brush: a sharp-cornered blade whose thickness follows the roundness
+ */
+const drawChiselStamp = (
+  target: StampTarget,
+  x: number,
+  y: number,
+  rx: number,
+  ry: number,
+  rotation: number,
+  color: string,
+  opacity: number,
+  isEraser: boolean
+) => {
+  drawRectStamp(target, x, y, rx, Math.max(0.5, ry * 0.6), rotation, color, opacity, isEraser);
+};
+
+let grainTexture: HTMLCanvasElement | null = null;
+let grainDataUrl: string | null = null;
+const tintedTextures = new Map<string, HTMLCanvasElement>();
+
+/**
+ * Grainy round stamp: white with a soft edge, broken up by paper-like grain
+ * and fibre streaks. Uses a fixed seed so exports match the screen.
+ */
+const getGrainTexture = (): HTMLCanvasElement | null => {
+  if (grainTexture) return grainTexture;
+  if (typeof document === 'undefined') return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = TEXTURE_SIZE;
+  canvas.height = TEXTURE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const random = createRandom(0x5e0e);
+  const streaks = Array.from({ length: TEXTURE_SIZE }, () => 0.6 + random() * 0.4);
+  const image = ctx.createImageData(TEXTURE_SIZE, TEXTURE_SIZE);
+  const half = TEXTURE_SIZE / 2;
+
+  for (let py = 0; py < TEXTURE_SIZE; py++) {
+    for (let px = 0; px < TEXTURE_SIZE; px++) {
+      const d = Math.hypot(px + 0.5 - half, py + 0.5 - half) / half;
+      const falloff = Math.max(0, Math.min(1, (1 - d) * 4));
+      const grain = 0.5 + random() * 0.5;
+      const i = (py * TEXTURE_SIZE + px) * 4;
+      image.data[i] = 255;
+      image.data[i + 1] = 255;
+      image.data[i + 2] = 255;
+      image.data[i + 3] = Math.round(255 * falloff * grain * streaks[py]);
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+
+  grainTexture = canvas;
+  return canvas;
+};
+
+const getTintedTexture = (color: string): HTMLCanvasElement | null => {
+  const cached = tintedTextures.get(color);
+  if (cached) return cached;
+
+  const grain = getGrainTexture();
+  if (!grain) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = TEXTURE_SIZE;
+  canvas.height = TEXTURE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(grain, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+
+  tintedTextures.set(color, canvas);
+  return canvas;
+};
+
+/**
+ * The luminance mask textured SVG stamps refer to. Belongs in the document
+ * once, ahead of the stamps; empty where the grain can't be generated.
+ */
+export const getTipSvgDefs = (): string => {
+  const grain = getGrainTexture();
+  if (!grain) return '';
+  grainDataUrl = grainDataUrl || grain.toDataURL('image/png');
+  return `<defs><mask id="${TEXTURE_MASK_ID}" maskContentUnits="objectBoundingBox"><image href="${grainDataUrl}" width="1" height="1" preserveAspectRatio="none" /></mask></defs>`;
+};
+
+/**
+ * Image stamp with paper grain. In SVG the grain is the shared mask from
+ * getTipSvgDefs.
+ */
+const drawTextureStamp = (
+  target: StampTarget,
+  x: number,
+  y: number,
+  rx: number,
+  ry: number,
+  rotation: number,
+  color: string,
+  opacity: number,
+  isEraser: boolean
+) => {
+  const texture = getTintedTexture(color);
+  if (!texture) {
+    drawEllipseStamp(target, x, y, rx, ry, rotation, color, opacity, isEraser);
+    return;
+  }
+  if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(rx) || !Number.isFinite(ry)) return;
+
+  const { ctx, svg } = target;
+  if (ctx) {
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.translate(x, y);
+    ctx.rotate(rotation);
+    ctx.drawImage(texture, -rx, -ry, rx * 2, ry * 2);
+    ctx.restore();
+  }
+
+  if (svg) {
+    const cx = x.toFixed(1);
+    const cy = y.toFixed(1);
+    const rotDeg = ((rotation * 180) / Math.PI).toFixed(1);
+
+    svg.push(`<ellipse cx="${cx}" cy="${cy}" rx="${rx.toFixed(1)}" ry="${ry.toFixed(1)}" transform="rotate(${rotDeg} ${cx} ${cy})" fill="${getSvgFill(color, isEraser)}" fill-opacity="${opacity.toFixed(2)}" mask="url(#${TEXTURE_MASK_ID})" />`);
+  }
+};
+
+/**
+ * Stamps the brush tip once. `rx` is half the tip's width, `ry` half its
+ * thickness, both already scaled by pressure and roundness.
+ */
+export const drawTipStamp = (
+  target: StampTarget,
+  tipType: TipType | undefined,
+  tip: TipContext,
+  x: number,
+  y: number,
+  rx: number,
+  ry: number,
+  rotation: number,
+  color: string,
+  opacity: number,
+  isEraser: boolean = false
+) => {
+  switch (tipType) {
+    case 'BRISTLE':
+      drawBristleStamp(target, tip, x, y, rx, ry, rotation, color, opacity, isEraser);
+      break;
+    case 'CHISEL':
+      drawChiselStamp(target, x, y, rx, ry, rotation, color, opacity, isEraser);
+      break;
+    case 'TEXTURE':
+      drawTextureStamp(target, x, y, rx, ry, rotation, color, opacity, isEraser);
+      break;
+    default:
+      drawEllipseStamp(target, x, y, rx, ry, rotation, color, opacity, isEraser);
+  }
+};
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { createGifEncoder } from './gifEncoder';
+
+interface DecodedFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  delay: number; // centiseconds
+  indices: Uint8Array;
+}
+
+// Reads back what the encoder writes: global palette, one image per frame
+const decodeGif = (bytes: Uint8Array) => {
+  const u16 = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+  const signature = String.fromCharCode(...bytes.slice(0, 6));
+  const width = u16(6);
+  const height = u16(8);
+  const palette = bytes.slice(13, 13 + 256 * 3);
+  const frames: DecodedFrame[] = [];
+  let delay = 0;
+  let pos = 13 + 256 * 3;
+
+  const readSubBlocks = () => {
+    const data: number[] = [];
+    while (bytes[pos] !== 0) {
+      const length = bytes[pos];
+      data.push(...bytes.slice(pos + 1, pos + 1 + length));
+      pos += length + 1;
+    }
+    pos++;
+    return data;
+  };
+
+  while (bytes[pos] !== 0x3b) {
+    if (bytes[pos] === 0x21) {
+      if (bytes[pos + 1] === 0xf9) delay = u16(pos + 4);
+      pos += 2;
+      readSubBlocks();
+    } else if (bytes[pos] === 0x2c) {
+      const frame = { left: u16(pos + 1), top: u16(pos + 3), width: u16(pos + 5), height: u16(pos + 7), delay };
+      const minCodeSize = bytes[pos + 10];
+      pos += 11;
+      frames.push({ ...frame, indices: lzwDecode(readSubBlocks(), minCodeSize, frame.width * frame.height) });
+    } else {
+      throw new Error(`Unexpected block 0x${bytes[pos].toString(16)} at ${pos}`);
+    }
+  }
+
+  return { signature, width, height, palette, frames, trailer: pos === bytes.length - 1 };
+};
+
+const lzwDecode = (data: number[], minCodeSize: number, pixelCount: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let pos = 0;
+
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  while (true) {
+    while (bitCount < codeSize && pos < data.length) {
+      bitBuffer |= data[pos++] << bitCount;
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) break;
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) break;
+
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    out.push(...entry);
+    if (previous) {
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+
+  expect(out.length).toBe(pixelCount);
+  return new Uint8Array(out);
+};
+
+// Solid image with an optional square of another color
+const makeFrame = (width: number, height: number, background: number[], square?: { x: number; y: number; size: number; color: number[] }) => {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inSquare = square && x >= square.x && x < square.x + square.size && y >= square.y && y < square.y + square.size;
+      rgba.set([...(inSquare ? square.color : background), 255], (y * width + x) * 4);
+    }
+  }
+  return rgba;
+};
+
+const paper = [253, 251, 247];
+const ink = [26, 26, 26];
+
+const encode = async (width: number, height: number, frames: { rgba: Uint8ClampedArray; delay: number }[]) => {
+  const encoder = createGifEncoder(width, height, frames[frames.length - 1].rgba);
+  frames.forEach(frame => encoder.addFrame(frame.rgba, frame.delay));
+  const blob = encoder.finish();
+  expect(blob.type).toBe('image/gif');
+  return decodeGif(new Uint8Array(await blob.arrayBuffer()));
+};
+
+const colorAt = (gif: ReturnType<typeof decodeGif>, index: number) => Array.from(gif.palette.slice(index * 3, index * 3 + 3));
+
+describe('createGifEncoder', () => {
+  it('writes a well-formed GIF89a', async () => {
+    const gif = await encode(8, 6, [{ rgba: makeFrame(8, 6, paper), delay: 100 }]);
+    expect(gif.signature).toBe('GIF89a');
+    expect(gif.width).toBe(8);
+    expect(gif.height).toBe(6);
+    expect(gif.frames).toHaveLength(1);
+    expect(gif.trailer).toBe(true);
+  });
+
+  it('round-trips the pixels through the palette and LZW', async () => {
+    const rgba = makeFrame(40, 30, paper, { x: 5, y: 7, size: 10, color: ink });
+    const gif = await encode(40, 30, [{ rgba, delay: 50 }]);
+    const [frame] = gif.frames;
+
+    expect(frame).toMatchObject({ left: 0, top: 0, width: 40, height: 30, delay: 5 });
+    expect(colorAt(gif, frame.indices[0])).toEqual(paper);
+    expect(colorAt(gif, frame.indices[7 * 40 + 5])).toEqual(ink);
+    expect(colorAt(gif, frame.indices[16 * 40 + 14])).toEqual(ink);
+    expect(colorAt(gif, frame.indices[17 * 40 + 15])).toEqual(paper);
+  });
+
+  it('stays decodable past the 4096 code table limit', async () => {
+    // Noise fills the LZW table, forcing the encoder to emit clear codes
+    const width = 128;
+    const height = 128;
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    let state = 1;
+    for (let i = 0; i < width * height; i++) {
+      state = (state * 1103515245 + 12345) >>> 0;
+      const shade = (state >>> 16) & 0xf0;
+      rgba.set([shade, shade, shade, 255], i * 4);
+    }
+    const gif = await encode(width, height, [{ rgba, delay: 100 }]);
+    const indices = gif.frames[0].indices;
+    for (let i = 0; i < width * height; i++) {
+      expect(colorAt(gif, indices[i])[0]).toBe(rgba[i * 4]);
+    }
+  });
+
+  it('stores only the rectangle that changed', async () => {
+    const first = makeFrame(40, 30, paper);
+    const second = makeFrame(40, 30, paper, { x: 12, y: 4, size: 6, color: ink });
+    const gif = await encode(40, 30, [{ rgba: first, delay: 100 }, { rgba: second, delay: 100 }]);
+
+    expect(gif.frames).toHaveLength(2);
+    expect(gif.frames[1]).toMatchObject({ left: 12, top: 4, width: 6, height: 6 });
+    expect(Array.from(gif.frames[1].indices).every(i => colorAt(gif, i).join() === ink.join())).toBe(true);
+  });
+
+  it('holds the previous frame longer when nothing changed', async () => {
+    const rgba = makeFrame(10, 10, paper);
+    const gif = await encode(10, 10, [{ rgba, delay: 100 }, { rgba, delay: 200 }]);
+    expect(gif.frames).toHaveLength(1);
+    expect(gif.frames[0].delay).toBe(30);
+  });
+});
@@ -0,0 +1,226 @@
+// Minimal animated GIF (GIF89a) writer: one global 256 color palette, LZW
+// compressed frames, and only the changed rectangle stored per frame.
+
+const MAX_CODES = 4096;
+
+interface EncodedFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  data: Uint8Array<ArrayBuffer>; // LZW data in sub-blocks, terminator included
+  delay: number;    // ms
+}
+
+export interface GifEncoder {
+  addFrame: (rgba: Uint8ClampedArray, delay: number) => void;
+  finish: () => Blob;
+}
+
+/**
+ * Popularity palette on 5 bit per channel buckets. Ink on paper uses few hues,
+ * so the most frequent buckets cover the image well; each entry is the mean
+ * of the colors that fell into it.
+ */
+const buildPalette = (rgba: Uint8ClampedArray): Uint8Array => {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+
+  for (let i = 0; i < rgba.length; i += 4) {
+    const bucket = ((rgba[i] >> 3) << 10) | ((rgba[i + 1] >> 3) << 5) | (rgba[i + 2] >> 3);
+    counts[bucket]++;
+    sums[bucket * 3] += rgba[i];
+    sums[bucket * 3 + 1] += rgba[i + 1];
+    sums[bucket * 3 + 2] += rgba[i + 2];
+  }
+
+  const used: number[] = [];
+  counts.forEach((count, bucket) => {
+    if (count > 0) used.push(bucket);
+  });
+  used.sort((a, b) => counts[b] - counts[a]);
+
+  const palette = new Uint8Array(256 * 3);
+  used.slice(0, 256).forEach((bucket, i) => {
+    palette[i * 3] = Math.round(sums[bucket * 3] / counts[bucket]);
+    palette[i * 3 + 1] = Math.round(sums[bucket * 3 + 1] / counts[bucket]);
+    palette[i * 3 + 2] = Math.round(sums[bucket * 3 + 2] / counts[bucket]);
+  });
+  return palette;
+};
+
+const createColorMapper = (palette: Uint8Array) => {
+  const cache = new Int16Array(32768).fill(-1);
+
+  return (r: number, g: number, b: number): number => {
+    const bucket = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (cache[bucket] >= 0) return cache[bucket];
+
+    // Nearest palette entry to the bucket centre
+    const cr = (r & 0xf8) + 4;
+    const cg = (g & 0xf8) + 4;
+    const cb = (b & 0xf8) + 4;
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < 256; i++) {
+      const dr = palette[i * 3] - cr;
+      const dg = palette[i * 3 + 1] - cg;
+      const db = palette[i * 3 + 2] - cb;
+      const dist = dr * dr + dg * dg + db * db;
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = i;
+      }
+    }
+    cache[bucket] = best;
+    return best;
+  };
+};
+
+/**
+ * GIF flavoured LZW with 8 bit pixels, packed into length-prefixed sub-blocks
+ */
+const lzwEncode = (pixels: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = pixels[0];
+  for (let i = 1; i < pixels.length; i++) {
+    const k = pixels[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+
+  // Sub-blocks of at most 255 bytes, minimum code size first, terminator last
+  const blocks: number[] = [minCodeSize];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const chunk = bytes.slice(i, i + 255);
+    blocks.push(chunk.length, ...chunk);
+  }
+  blocks.push(0);
+  return new Uint8Array(blocks);
+};
+
+const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+
+/**
+ * `paletteSource` should show every color the animation will use,
+ * e.g. its last frame.
+ */
+export const createGifEncoder = (width: number, height: number, paletteSource: Uint8ClampedArray): GifEncoder => {
+  const palette = buildPalette(paletteSource);
+  const toIndex = createColorMapper(palette);
+  const frames: EncodedFrame[] = [];
+  let previous: Uint8Array | null = null;
+
+  const addFrame = (rgba: Uint8ClampedArray, delay: number) => {
+    const indices = new Uint8Array(width * height);
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      indices[i] = toIndex(rgba[p], rgba[p + 1], rgba[p + 2]);
+    }
+
+    // Rectangle that changed since the last frame
+    let minX = 0;
+    let minY = 0;
+    let maxX = width - 1;
+    let maxY = height - 1;
+    if (previous) {
+      minX = width;
+      minY = height;
+      maxX = -1;
+      maxY = -1;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = y * width + x;
+          if (indices[i] !== previous[i]) {
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+          }
+        }
+      }
+      if (maxX < 0) {
+        // Nothing changed: hold the previous frame longer
+        frames[frames.length - 1].delay += delay;
+        return;
+      }
+    }
+
+    const rectWidth = maxX - minX + 1;
+    const rectHeight = maxY - minY + 1;
+    const rect = new Uint8Array(rectWidth * rectHeight);
+    for (let y = 0; y < rectHeight; y++) {
+      const row = (minY + y) * width + minX;
+      rect.set(indices.subarray(row, row + rectWidth), y * rectWidth);
+    }
+
+    frames.push({ left: minX, top: minY, width: rectWidth, height: rectHeight, data: lzwEncode(rect), delay });
+    previous = indices;
+  };
+
+  const finish = (): Blob => {
+    const header = new Uint8Array([
+      ...Array.from('GIF89a', c => c.charCodeAt(0)),
+      ...u16(width), ...u16(height),
+      0xf7, 0, 0, // Global 256 color table, background 0, square pixels
+      ...palette,
+      // Loop forever (NETSCAPE2.0 application extension)
+      0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0
+    ]);
+
+    const parts: BlobPart[] = [header];
+    frames.forEach(frame => {
+      const delay = Math.max(2, Math.round(frame.delay / 10)); // centiseconds
+      parts.push(new Uint8Array([
+        // Graphic control: keep the frame in place for the next one to draw over
+        0x21, 0xf9, 0x04, 0x04, ...u16(delay), 0, 0,
+        0x2c, ...u16(frame.left), ...u16(frame.top), ...u16(frame.width), ...u16(frame.height), 0
+      ]));
+      parts.push(frame.data);
+    });
+    parts.push(new Uint8Array([0x3b]));
+
+    return new Blob(parts, { type: 'image/gif' });
+  };
+
+  return { addFrame, finish };
+};
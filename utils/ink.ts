@@ -0,0 +1,66 @@
+import { InkConcentration } from '../types';
+
+// Color of 한지 the water-thinned ink is mixed toward
+export const PAPER_COLOR = '#fdfbf7';
+
+// Share of water in the ink for each concentration (농묵/중묵/담묵)
+const WATER_RATIO: Record<InkConcentration, number> = {
+  DARK: 0,
+  MEDIUM: 0.45,
+  LIGHT: 0.75
+};
+
+export const INK_CONCENTRATION_LABELS: Record<InkConcentration, string> = {
+  DARK: '농묵',
+  MEDIUM: '중묵',
+  LIGHT: '담묵'
+};
+
+// Base ink colors offered in the palette
+export const INK_COLORS: { name: string; color: string }[] = [
+  { name: '먹', color: '#1a1a1a' },
+  { name: '청묵', color: '#1f2a3a' },
+  { name: '갈묵', color: '#3b2a1e' },
+  { name: '주묵', color: '#a3261d' }
+];
+
+export interface InkMix {
+  color: string;  // Pigment color after dilution
+  alpha: number;  // Multiplier for stroke opacity
+  bleed: number;  // Multiplier for 번짐, watery ink spreads further
+}
+
+export const parseHex = (hex: string): [number, number, number] => {
+  let h = hex.replace('#', '');
+  if (h.length === 3) h = h.split('').map(c => c + c).join('');
+  const n = parseInt(h, 16);
+  if (h.length !== 6 || Number.isNaN(n)) return [26, 26, 26];
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const toHex = (rgb: [number, number, number]): string => {
+  return '#' + rgb.map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Water-dilution mixing: thinning ink with water moves its color toward the
+ * paper, makes each mark more transparent and lets it spread further.
+ */
+export const mixInk = (baseColor: string, concentration: InkConcentration = 'DARK'): InkMix => {
+  const water = WATER_RATIO[concentration] ?? 0;
+  if (water <= 0) return { color: baseColor, alpha: 1, bleed: 1 };
+
+  const ink = parseHex(baseColor);
+  const paper = parseHex(PAPER_COLOR);
+  const tint = water * 0.6;
+
+  return {
+    color: toHex([
+      ink[0] + (paper[0] - ink[0]) * tint,
+      ink[1] + (paper[1] - ink[1]) * tint,
+      ink[2] + (paper[2] - ink[2]) * tint
+    ]),
+    alpha: 1 - water * 0.5,
+    bleed: 1 + water * 1.5
+  };
+};
@@ -0,0 +1,63 @@
+import { BrushSettings } from '../types';
+import { drawEllipseStamp, StampTarget } from './stamp';
+import { RandomFn } from './random';
+
+// Below this speed (px/ms) ink has time to soak into the paper
+const BLEED_VELOCITY = 0.6;
+// Dwell time (ms) after which a stationary brush reaches its full pool size
+const FULL_DWELL_TIME = 600;
+const MAX_FIBRES = 6;
+
+/**
+ * How much ink soaks into the paper (0 to 1) for given paper/ink settings.
+ * Slow strokes bleed, fast strokes leave crisp edges.
+ */
+export const getBleedAmount = (settings: BrushSettings, velocity: number): number => {
+  const wetPaper = (settings.absorbency || 0) * (settings.wetness || 0);
+  if (wetPaper <= 0) return 0;
+
+  const slowness = 1 - Math.min(1, velocity / BLEED_VELOCITY);
+  return wetPaper * slowness;
+};
+
+/**
+ * Bleed for a brush resting in one place, growing with how long it stayed
+ */
+export const getDwellBleedAmount = (settings: BrushSettings, dwellTime: number): number => {
+  const wetPaper = (settings.absorbency || 0) * (settings.wetness || 0);
+  return wetPaper * Math.min(1, dwellTime / FULL_DWELL_TIME);
+};
+
+/**
+ * Stamps the wet edge around a brush mark: a faint halo where ink spreads
+ * evenly, plus thin fibres that wick outward along the 한지 fibres at random
+ * angles and lengths, giving the irregular, hairy edge of 번짐.
+ */
+export const drawInkBleed = (
+  target: StampTarget,
+  x: number,
+  y: number,
+  radius: number,
+  color: string,
+  amount: number,
+  random: RandomFn
+) => {
+  if (amount <= 0 || radius <= 0) return;
+
+  // Halo: ink spreading evenly into wet paper
+  const haloRadius = radius * (1 + amount * 0.8);
+  drawEllipseStamp(target, x, y, haloRadius, haloRadius * (0.85 + random() * 0.15), random() * Math.PI, color, 0.05 + amount * 0.1);
+
+  // Fibres: ink wicking outward along paper fibres
+  const fibres = Math.ceil(amount * MAX_FIBRES);
+  for (let i = 0; i < fibres; i++) {
+    const angle = random() * Math.PI * 2;
+    const length = radius * amount * (0.4 + random() * 1.6);
+    const offset = radius * 0.8 + length / 2;
+    const fx = x + Math.cos(angle) * offset;
+    const fy = y + Math.sin(angle) * offset;
+    const thickness = 0.3 + random() * 0.6;
+
+    drawEllipseStamp(target, fx, fy, length / 2, thickness, angle, color, 0.1 + random() * 0.2 * amount);
+  }
+};
@@ -0,0 +1,289 @@
+import { Stroke } from '../types';
+import { renderStroke } from './strokeRenderer';
+import { mixInk } from './ink';
+import { getInkOpacity } from './brushPhysics';
+
+// Raster pixels per canvas unit when tracing a stroke
+const OUTLINE_RESOLUTION = 2;
+// Keeps the raster of one very long stroke within a sane memory budget
+const MAX_OUTLINE_PIXELS = 8_000_000;
+// Coverage (0-255) above which a pixel counts as inside the shape
+const COVERAGE_THRESHOLD = 90;
+
+export interface Vec {
+  x: number;
+  y: number;
+}
+
+/**
+ * One filled shape: closed contours of a single ink color, filled even-odd
+ */
+export interface OutlineShape {
+  color: string;
+  opacity: number; // Diluted ink and a drying brush are see-through
+  contours: Vec[][];
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Marching squares over an alpha channel. Returns the closed contours of the
+ * area above COVERAGE_THRESHOLD in pixel coordinates, crossings interpolated
+ * between pixel centres so the outline follows the anti-aliased edge.
+ * The caller pads the image with a transparent border so every contour closes.
+ */
+export const traceContours = (alpha: Uint8ClampedArray | number[], width: number, height: number): Vec[][] => {
+  const at = (x: number, y: number) => alpha[y * width + x];
+  const inside = (x: number, y: number) => at(x, y) > COVERAGE_THRESHOLD;
+
+  // Edge ids: horizontal edge from (x, y) to (x + 1, y) is even, vertical edge
+  // from (x, y) to (x, y + 1) is odd. Each crossed edge is shared by two cells.
+  const hEdge = (x: number, y: number) => (y * width + x) * 2;
+  const vEdge = (x: number, y: number) => (y * width + x) * 2 + 1;
+
+  const crossing = new Map<number, Vec>();
+  const links = new Map<number, number[]>();
+
+  const cross = (id: number, ax: number, ay: number, bx: number, by: number): number => {
+    if (!crossing.has(id)) {
+      const a = at(ax, ay);
+      const b = at(bx, by);
+      const t = a === b ? 0.5 : Math.min(1, Math.max(0, (COVERAGE_THRESHOLD - a) / (b - a)));
+      crossing.set(id, { x: ax + (bx - ax) * t + 0.5, y: ay + (by - ay) * t + 0.5 });
+    }
+    return id;
+  };
+
+  const link = (a: number, b: number) => {
+    if (!links.has(a)) links.set(a, []);
+    if (!links.has(b)) links.set(b, []);
+    links.get(a)!.push(b);
+    links.get(b)!.push(a);
+  };
+
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const index =
+        (inside(x, y) ? 8 : 0) |
+        (inside(x + 1, y) ? 4 : 0) |
+        (inside(x + 1, y + 1) ? 2 : 0) |
+        (inside(x, y + 1) ? 1 : 0);
+      if (index === 0 || index === 15) continue;
+
+      const top = () => cross(hEdge(x, y), x, y, x + 1, y);
+      const bottom = () => cross(hEdge(x, y + 1), x, y + 1, x + 1, y + 1);
+      const left = () => cross(vEdge(x, y), x, y, x, y + 1);
+      const right = () => cross(vEdge(x + 1, y), x + 1, y, x + 1, y + 1);
+
+      switch (index) {
+        case 1: case 14: link(left(), bottom()); break;
+        case 2: case 13: link(bottom(), right()); break;
+        case 3: case 12: link(left(), right()); break;
+        case 4: case 11: link(top(), right()); break;
+        case 6: case 9: link(top(), bottom()); break;
+        case 7: case 8: link(left(), top()); break;
+        case 5: link(left(), top()); link(bottom(), right()); break;
+        case 10: link(top(), right()); link(left(), bottom()); break;
+      }
+    }
+  }
+
+  // Walk the links into closed loops
+  const visited = new Set<number>();
+  const contours: Vec[][] = [];
+
+  links.forEach((_, start) => {
+    if (visited.has(start)) return;
+
+    const loop: Vec[] = [];
+    let prev = -1;
+    let current = start;
+    while (!visited.has(current)) {
+      visited.add(current);
+      loop.push(crossing.get(current)!);
+      const next = links.get(current)!.find(id => id !== prev && !visited.has(id));
+      if (next === undefined) break;
+      prev = current;
+      current = next;
+    }
+    if (loop.length >= 3) contours.push(loop);
+  });
+
+  return contours;
+};
+
+const distanceToSegment = (p: Vec, a: Vec, b: Vec) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+};
+
+// Ramer-Douglas-Peucker on an open polyline
+const simplifyLine = (points: Vec[], tolerance: number): Vec[] => {
+  if (points.length < 3) return points;
+
+  let maxDist = 0;
+  let split = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (d > maxDist) {
+      maxDist = d;
+      split = i;
+    }
+  }
+
+  if (maxDist <= tolerance) return [points[0], points[points.length - 1]];
+
+  const head = simplifyLine(points.slice(0, split + 1), tolerance);
+  const tail = simplifyLine(points.slice(split), tolerance);
+  return [...head.slice(0, -1), ...tail];
+};
+
+/**
+ * Simplifies a closed contour to within `tolerance` (canvas units).
+ * The ring is cut at its first point and the point farthest from it.
+ */
+export const simplifyContour = (contour: Vec[], tolerance: number): Vec[] => {
+  if (tolerance <= 0 || contour.length < 4) return contour;
+
+  let far = 0;
+  let farDist = 0;
+  contour.forEach((p, i) => {
+    const d = Math.hypot(p.x - contour[0].x, p.y - contour[0].y);
+    if (d > farDist) {
+      farDist = d;
+      far = i;
+    }
+  });
+
+  const first = simplifyLine(contour.slice(0, far + 1), tolerance);
+  const second = simplifyLine([...contour.slice(far), contour[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+/**
+ * Turns contours into one path. Used with fill-rule="evenodd", so holes
+ * (the counters of ㅇ, dry-brush gaps) stay open whatever their winding.
+ */
+export const contoursToPathData = (contours: Vec[][]): string => {
+  return contours
+    .filter(c => c.length >= 3)
+    .map(c => 'M' + c.map(p => `${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join(' L') + ' Z')
+    .join(' ');
+};
+
+/**
+ * Traces an already rendered canvas (e.g. the generated text layer).
+ * `scale` is the canvas pixels per output unit, `origin` where the canvas'
+ * top left corner sits in output units.
+ */
+export const traceCanvasContours = (
+  canvas: HTMLCanvasElement,
+  scale: number,
+  tolerance: number,
+  origin: Vec = { x: 0, y: 0 }
+): Vec[][] => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return [];
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  // Alpha with a one pixel transparent border
+  const width = canvas.width + 2;
+  const height = canvas.height + 2;
+  const alpha = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      alpha[(y + 1) * width + x + 1] = data[(y * canvas.width + x) * 4 + 3];
+    }
+  }
+
+  return traceContours(alpha, width, height).map(contour =>
+    simplifyContour(contour.map(p => ({ x: origin.x + (p.x - 1) / scale, y: origin.y + (p.y - 1) / scale })), tolerance)
+  );
+};
+
+export const traceCanvasOutline = (
+  canvas: HTMLCanvasElement,
+  scale: number,
+  tolerance: number,
+  origin: Vec = { x: 0, y: 0 }
+): string => contoursToPathData(traceCanvasContours(canvas, scale, tolerance, origin));
+
+const getStrokeBounds = (stroke: Stroke): Bounds => {
+  // Room for the tip, bleed halo and the exit tail around the centre line
+  const margin = stroke.settings.size * 2.5 + 4;
+  const xs = stroke.points.map(p => p.x);
+  const ys = stroke.points.map(p => p.y);
+  return {
+    minX: Math.min(...xs) - margin,
+    minY: Math.min(...ys) - margin,
+    maxX: Math.max(...xs) + margin,
+    maxY: Math.max(...ys) + margin
+  };
+};
+
+const overlaps = (a: Bounds, b: Bounds) =>
+  a.minX < b.maxX && a.maxX > b.minX && a.minY < b.maxY && a.maxY > b.minY;
+
+/**
+ * Merges each stroke's stamps into one outline shape. Every stroke is
+ * rasterized on its own, later eraser strokes are cut out of it, and the
+ * result is traced, so overlapping strokes of different ink stay separate.
+ */
+export const traceStrokeOutlines = (strokes: Stroke[], tolerance: number): OutlineShape[] => {
+  const shapes: OutlineShape[] = [];
+  const bounds = strokes.map(getStrokeBounds);
+  const canvas = document.createElement('canvas');
+
+  strokes.forEach((stroke, i) => {
+    if (stroke.settings.isEraser || stroke.points.length < 2) return;
+
+    const box = bounds[i];
+    const area = (box.maxX - box.minX) * (box.maxY - box.minY);
+    const resolution = Math.min(OUTLINE_RESOLUTION, Math.sqrt(MAX_OUTLINE_PIXELS / area));
+    canvas.width = Math.ceil((box.maxX - box.minX) * resolution);
+    canvas.height = Math.ceil((box.maxY - box.minY) * resolution);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.setTransform(resolution, 0, 0, resolution, -box.minX * resolution, -box.minY * resolution);
+    const end = renderStroke({ ctx }, stroke);
+    for (let j = i + 1; j < strokes.length; j++) {
+      if (strokes[j].settings.isEraser && overlaps(box, bounds[j])) {
+        renderStroke({ ctx }, strokes[j]);
+      }
+    }
+
+    const contours = traceCanvasContours(canvas, resolution, tolerance, { x: box.minX, y: box.minY });
+    if (contours.length === 0) return;
+
+    // One flat fill can't follow the reservoir fading along the stroke, so it
+    // takes the opacity halfway between the ink at the start and at the end
+    const ink = mixInk(stroke.settings.color, stroke.settings.concentration);
+    const opacity = ink.alpha * getInkOpacity((stroke.ink + end.ink) / 2);
+    shapes.push({ color: ink.color, opacity, contours });
+  });
+
+  return shapes;
+};
+
+export const renderOutlineShape = (shape: OutlineShape): string => {
+  const opacity = shape.opacity < 1 ? ` fill-opacity="${shape.opacity.toFixed(3)}"` : '';
+  return `<path d="${contoursToPathData(shape.contours)}" fill="${shape.color}"${opacity} fill-rule="evenodd" />`;
+};
+
+/**
+ * One filled outline <path> per stroke
+ */
+export const renderStrokeOutlines = (strokes: Stroke[], tolerance: number): string[] => {
+  return traceStrokeOutlines(strokes, tolerance).map(renderOutlineShape);
+};
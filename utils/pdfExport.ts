@@ -0,0 +1,128 @@
+import { PdfExportOptions, PdfPageSize } from '../types';
+import { OutlineShape } from './outline';
+import { parseHex } from './ink';
+
+const PT_PER_MM = 72 / 25.4;
+// Canvas units are CSS pixels (96 per inch); PDF points are 72 per inch
+const PT_PER_CANVAS_UNIT = 72 / 96;
+
+// Portrait sizes in mm
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  POSTCARD: { width: 100, height: 148 },
+  SCROLL: { width: 350, height: 1350 }
+};
+
+export const PDF_PAGE_SIZE_LABELS: Record<PdfPageSize, string> = {
+  A4: 'A4',
+  A3: 'A3',
+  POSTCARD: '엽서',
+  SCROLL: '족자'
+};
+
+export const DEFAULT_PDF_EXPORT_OPTIONS: PdfExportOptions = {
+  pageSize: 'A4',
+  orientation: 'PORTRAIT',
+  margin: 20,
+  placement: 'CENTER'
+};
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const getShapeBounds = (shapes: OutlineShape[]) => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  shapes.forEach(shape => shape.contours.forEach(contour => contour.forEach(p => {
+    if (p.x < minX) minX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y > maxY) maxY = p.y;
+  })));
+
+  return maxX < minX ? null : { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Fill opacities of the shapes; each becomes a graphics state /GS<index> setting /ca
+const getOpacities = (shapes: OutlineShape[]): string[] =>
+  Array.from(new Set(shapes.map(shape => num(shape.opacity))));
+
+/**
+ * Page content stream: every shape as an even-odd filled path, placed by a
+ * single transform from canvas units (y down) to PDF points (y up)
+ */
+const buildContentStream = (shapes: OutlineShape[], pageWidth: number, pageHeight: number, options: PdfExportOptions): string => {
+  const opacities = getOpacities(shapes);
+  const bounds = getShapeBounds(shapes);
+  if (!bounds) return '';
+
+  const margin = options.margin * PT_PER_MM;
+  const availableWidth = Math.max(1, pageWidth - margin * 2);
+  const availableHeight = Math.max(1, pageHeight - margin * 2);
+  const fitScale = Math.min(availableWidth / bounds.width, availableHeight / bounds.height);
+  const scale = options.placement === 'FIT' ? fitScale : Math.min(PT_PER_CANVAS_UNIT, fitScale);
+
+  const offsetX = (pageWidth - bounds.width * scale) / 2 - bounds.x * scale;
+  const offsetY = (pageHeight - bounds.height * scale) / 2 - bounds.y * scale;
+
+  const ops: string[] = ['q', `${num(scale)} 0 0 ${num(-scale)} ${num(offsetX)} ${num(pageHeight - offsetY)} cm`];
+
+  shapes.forEach(shape => {
+    const [r, g, b] = parseHex(shape.color);
+    ops.push(`/GS${opacities.indexOf(num(shape.opacity))} gs`);
+    ops.push(`${num(r / 255)} ${num(g / 255)} ${num(b / 255)} rg`);
+    shape.contours.forEach(contour => {
+      if (contour.length < 3) return;
+      ops.push(`${num(contour[0].x)} ${num(contour[0].y)} m`);
+      for (let i = 1; i < contour.length; i++) {
+        ops.push(`${num(contour[i].x)} ${num(contour[i].y)} l`);
+      }
+      ops.push('h');
+    });
+    ops.push('f*');
+  });
+
+  ops.push('Q');
+  return ops.join('\n');
+};
+
+/**
+ * Writes a single page PDF with the shapes as vector paths. Everything is
+ * plain ASCII, so string lengths are byte offsets for the cross-reference table.
+ * Keywords (ASCII, no parentheses) go into the document info.
+ */
+export const createPdf = (shapes: OutlineShape[], options: PdfExportOptions, keywords?: string): Blob => {
+  const size = PDF_PAGE_SIZES[options.pageSize];
+  const landscape = options.orientation === 'LANDSCAPE';
+  const pageWidth = (landscape ? size.height : size.width) * PT_PER_MM;
+  const pageHeight = (landscape ? size.width : size.height) * PT_PER_MM;
+
+  const content = buildContentStream(shapes, pageWidth, pageHeight, options);
+  const graphicsStates = getOpacities(shapes).map((opacity, i) => `/GS${i} << /ca ${opacity} >>`).join(' ');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Contents 4 0 R /Resources << /ExtGState << ${graphicsStates} >> >> >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    keywords ? `<< /Producer (Seoye) /Keywords (${keywords}) >>` : '<< /Producer (Seoye) >>'
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    pdf += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Blob([pdf], { type: 'application/pdf' });
+};
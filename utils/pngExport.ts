@@ -0,0 +1,150 @@
+import { PngExportOptions, Stroke } from '../types';
+import { renderStrokes } from './strokeRenderer';
+import { PAPER_COLOR } from './ink';
+
+// Browsers refuse to allocate canvases beyond these limits
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 4;
+// Alpha (0-255) above which a pixel counts as content when cropping
+const CONTENT_THRESHOLD = 8;
+
+/**
+ * Decodes an SVG document into an image that can be drawn onto a canvas
+ */
+const loadSvgImage = (svg: string): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.src = url;
+  return image.decode()
+    .then(() => image)
+    .finally(() => URL.revokeObjectURL(url));
+};
+
+export const DEFAULT_PNG_EXPORT_OPTIONS: PngExportOptions = {
+  background: 'PAPER',
+  sizeMode: 'SCALE',
+  scale: 2,
+  pixelSize: 4000,
+  cropToContent: false,
+  padding: 40
+};
+
+export interface ExportRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bounding box of everything drawn on the given layers, in canvas units
+ */
+export const findContentBounds = (layers: HTMLCanvasElement[], dpr: number): ExportRegion | null => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  layers.forEach(layer => {
+    const ctx = layer.getContext('2d');
+    if (!ctx || layer.width === 0 || layer.height === 0) return;
+
+    const { data } = ctx.getImageData(0, 0, layer.width, layer.height);
+    for (let y = 0; y < layer.height; y++) {
+      for (let x = 0; x < layer.width; x++) {
+        if (data[(y * layer.width + x) * 4 + 3] > CONTENT_THRESHOLD) {
+          if (x < minX) minX = x;
+          if (x > maxX) maxX = x;
+          if (y < minY) minY = y;
+          if (y > maxY) maxY = y;
+        }
+      }
+    }
+  });
+
+  if (maxX < minX) return null;
+  return {
+    x: minX / dpr,
+    y: minY / dpr,
+    width: (maxX - minX + 1) / dpr,
+    height: (maxY - minY + 1) / dpr
+  };
+};
+
+/**
+ * Output pixels per canvas unit, kept within what a canvas can hold
+ */
+export const getOutputScale = (region: ExportRegion, options: PngExportOptions): number => {
+  const requested = options.sizeMode === 'PIXELS'
+    ? options.pixelSize / Math.max(region.width, region.height)
+    : options.scale;
+
+  const sideLimit = MAX_CANVAS_SIDE / Math.max(region.width, region.height);
+  const areaLimit = Math.sqrt(MAX_CANVAS_AREA / (region.width * region.height));
+  return Math.max(0.01, Math.min(requested, sideLimit, areaLimit));
+};
+
+export interface PngExportSource {
+  strokes: Stroke[];
+  textSvg: string[];   // Recorded particles of the generated text
+  width: number;       // Document size in canvas units
+  height: number;
+  layers: HTMLCanvasElement[]; // On-screen layers, only used to find the content
+  dpr: number;
+}
+
+/**
+ * Renders the artwork into a new canvas at the requested size. Nothing is
+ * upscaled: strokes are replayed from their points and the generated text is
+ * rasterized from its recorded vector particles at the output resolution.
+ */
+export const renderPngExport = async (source: PngExportSource, options: PngExportOptions): Promise<HTMLCanvasElement> => {
+  let region: ExportRegion = { x: 0, y: 0, width: source.width, height: source.height };
+
+  if (options.cropToContent) {
+    const content = findContentBounds(source.layers, source.dpr);
+    if (content) {
+      region = {
+        x: content.x - options.padding,
+        y: content.y - options.padding,
+        width: content.width + options.padding * 2,
+        height: content.height + options.padding * 2
+      };
+    }
+  }
+
+  const scale = getOutputScale(region, options);
+  const output = document.createElement('canvas');
+  output.width = Math.max(1, Math.round(region.width * scale));
+  output.height = Math.max(1, Math.round(region.height * scale));
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  if (options.background === 'PAPER') {
+    ctx.fillStyle = PAPER_COLOR;
+    ctx.fillRect(0, 0, output.width, output.height);
+  }
+
+  if (source.textSvg.length > 0) {
+    const viewBox = `${region.x} ${region.y} ${region.width} ${region.height}`;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" width="${output.width}" height="${output.height}" preserveAspectRatio="none">${source.textSvg.join('')}</svg>`;
+    const text = await loadSvgImage(svg);
+    ctx.drawImage(text, 0, 0, output.width, output.height);
+  }
+
+  // Strokes get a layer of their own, so erasers only cut into the drawing
+  // (as on screen) and not into the text or paper below
+  const drawing = document.createElement('canvas');
+  drawing.width = output.width;
+  drawing.height = output.height;
+  const drawingCtx = drawing.getContext('2d');
+  if (drawingCtx) {
+    drawingCtx.setTransform(scale, 0, 0, scale, -region.x * scale, -region.y * scale);
+    drawingCtx.lineCap = 'round';
+    drawingCtx.lineJoin = 'round';
+    renderStrokes({ ctx: drawingCtx }, source.strokes);
+    ctx.drawImage(drawing, 0, 0);
+  }
+
+  return output;
+};
@@ -0,0 +1,138 @@
+import { PointerKind, PressureCurve, PressureProfiles } from '../types';
+
+const STORAGE_KEY = 'seoye_pressure_curves';
+
+export const POINTER_KINDS: PointerKind[] = ['pen', 'mouse', 'touch'];
+
+export const POINTER_KIND_LABELS: Record<PointerKind, string> = {
+  pen: '펜',
+  mouse: '마우스',
+  touch: '터치'
+};
+
+// Linear response, full output range. 2.5 px/ms was the old hard-coded mouse limit.
+export const DEFAULT_PRESSURE_CURVE: PressureCurve = {
+  cp1: { x: 0.33, y: 0.33 },
+  cp2: { x: 0.67, y: 0.67 },
+  min: 0,
+  max: 1,
+  maxVelocity: 2.5
+};
+
+export const DEFAULT_PRESSURE_PROFILES: PressureProfiles = {
+  pen: { ...DEFAULT_PRESSURE_CURVE },
+  mouse: { ...DEFAULT_PRESSURE_CURVE },
+  touch: { ...DEFAULT_PRESSURE_CURVE }
+};
+
+export const toPointerKind = (pointerType: string): PointerKind => {
+  return pointerType === 'pen' || pointerType === 'touch' ? pointerType : 'mouse';
+};
+
+const bezier = (a: number, b: number, t: number) => {
+  // Cubic bezier from 0 to 1 with control values a and b
+  const mt = 1 - t;
+  return 3 * mt * mt * t * a + 3 * mt * t * t * b + t * t * t;
+};
+
+/**
+ * Maps an input in [0, 1] through the curve and the min/max clamp.
+ * The curve runs from (0, 0) to (1, 1) like CSS cubic-bezier(), so x is
+ * solved for t by bisection (x is monotonic as control x values are in [0, 1]).
+ */
+export const evaluatePressureCurve = (curve: PressureCurve, input: number): number => {
+  const x = Math.min(1, Math.max(0, input));
+
+  let lo = 0;
+  let hi = 1;
+  let t = x;
+  for (let i = 0; i < 20; i++) {
+    t = (lo + hi) / 2;
+    if (bezier(curve.cp1.x, curve.cp2.x, t) < x) lo = t;
+    else hi = t;
+  }
+
+  const y = Math.min(1, Math.max(0, bezier(curve.cp1.y, curve.cp2.y, t)));
+  return curve.min + (curve.max - curve.min) * y;
+};
+
+/**
+ * Loads the calibrated curves, filling in any device that was never calibrated
+ */
+export const loadPressureProfiles = (): PressureProfiles => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return {
+        pen: { ...DEFAULT_PRESSURE_CURVE, ...parsed.pen },
+        mouse: { ...DEFAULT_PRESSURE_CURVE, ...parsed.mouse },
+        touch: { ...DEFAULT_PRESSURE_CURVE, ...parsed.touch }
+      };
+    }
+  } catch (e) {
+    console.error("Failed to load pressure curves", e);
+  }
+  return DEFAULT_PRESSURE_PROFILES;
+};
+
+export const savePressureProfiles = (profiles: PressureProfiles) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.warn("Failed to save pressure curves", e);
+  }
+};
+
+const percentile = (sorted: number[], p: number) => {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+/**
+ * Suggests a curve from calibration strokes.
+ * Pens: `samples` are raw pressures. The curve is bent so the user's median
+ * pressure lands in the middle of the output, so light and heavy hands both
+ * get the full range.
+ * Mouse/touch: `samples` are velocities (px/ms). The user's fast strokes set
+ * maxVelocity, and the median speed is mapped to the middle of the output.
+ */
+export const suggestPressureCurve = (
+  kind: PointerKind,
+  samples: number[],
+  current: PressureCurve
+): PressureCurve => {
+  const valid = samples.filter(v => Number.isFinite(v) && v >= 0).sort((a, b) => a - b);
+  if (valid.length < 10) return current;
+
+  let maxVelocity = current.maxVelocity;
+  let median: number;
+
+  if (kind === 'pen') {
+    median = percentile(valid, 0.5);
+  } else {
+    maxVelocity = Math.max(0.1, percentile(valid, 0.9) * 1.1);
+    // Velocity input is inverted: slow = heavy
+    median = 1 - Math.min(1, percentile(valid, 0.5) / maxVelocity);
+  }
+  median = Math.min(0.95, Math.max(0.05, median));
+
+  // Both control points on the anti-diagonal: d > 0 bows the curve up
+  // (boosts light input), d < 0 bows it down. Find the d through (median, 0.5).
+  const curveFor = (d: number): PressureCurve => ({
+    cp1: { x: 0.5 - d, y: 0.5 + d },
+    cp2: { x: 0.5 - d, y: 0.5 + d },
+    min: 0,
+    max: 1,
+    maxVelocity
+  });
+
+  let lo = -0.5;
+  let hi = 0.5;
+  for (let i = 0; i < 30; i++) {
+    const d = (lo + hi) / 2;
+    if (evaluatePressureCurve(curveFor(d), median) < 0.5) lo = d;
+    else hi = d;
+  }
+
+  return { ...curveFor((lo + hi) / 2), min: current.min, max: current.max };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, deriveSeed, formatSeed, parseSeed, shuffle } from './random';
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(1234);
+    const b = createRandom(1234);
+    for (let i = 0; i < 100; i++) expect(a()).toBe(b());
+  });
+
+  it('gives different sequences for different seeds', () => {
+    const a = createRandom(1);
+    const b = createRandom(2);
+    expect(Array.from({ length: 5 }, a)).not.toEqual(Array.from({ length: 5 }, b));
+  });
+
+  it('stays within [0, 1)', () => {
+    const random = createRandom(0xffffffff);
+    for (let i = 0; i < 10000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('deriveSeed', () => {
+  it('is stable and gives every index its own 32-bit seed', () => {
+    const seeds = Array.from({ length: 1000 }, (_, i) => deriveSeed(42, i));
+    expect(deriveSeed(42, 7)).toBe(seeds[7]);
+    expect(new Set(seeds).size).toBe(seeds.length);
+    seeds.forEach(seed => {
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThanOrEqual(0);
+      expect(seed).toBeLessThanOrEqual(0xffffffff);
+    });
+  });
+
+  it('depends on the artwork seed', () => {
+    expect(deriveSeed(1, 0)).not.toBe(deriveSeed(2, 0));
+  });
+});
+
+describe('shuffle', () => {
+  it('permutes the items in place', () => {
+    const items = Array.from({ length: 50 }, (_, i) => i);
+    const result = shuffle(items, createRandom(9));
+    expect(result).toBe(items);
+    expect([...items].sort((a, b) => a - b)).toEqual(Array.from({ length: 50 }, (_, i) => i));
+    expect(items).not.toEqual(Array.from({ length: 50 }, (_, i) => i));
+  });
+
+  it('follows only the random sequence', () => {
+    const a = shuffle(['a', 'b', 'c', 'd', 'e', 'f'], createRandom(5));
+    const b = shuffle(['a', 'b', 'c', 'd', 'e', 'f'], createRandom(5));
+    expect(a).toEqual(b);
+  });
+});
+
+describe('formatSeed / parseSeed', () => {
+  it('formats as 8 upper case hex digits', () => {
+    expect(formatSeed(0)).toBe('00000000');
+    expect(formatSeed(0xabc)).toBe('00000ABC');
+    expect(formatSeed(0xffffffff)).toBe('FFFFFFFF');
+  });
+
+  it('round-trips', () => {
+    [0, 1, 0x5e0e, 0x80000000, 0xffffffff].forEach(seed => {
+      expect(parseSeed(formatSeed(seed))).toBe(seed);
+    });
+  });
+
+  it('accepts short and lower case input with surrounding space', () => {
+    expect(parseSeed(' abc ')).toBe(0xabc);
+  });
+
+  it('rejects anything that is not up to 8 hex digits', () => {
+    ['', 'xyz', '123456789', '12 34', '-1', '0x12'].forEach(text => {
+      expect(parseSeed(text)).toBeNull();
+    });
+  });
+});
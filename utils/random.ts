@@ -0,0 +1,60 @@
+export type RandomFn = () => number;
+
+/**
+ * Creates a new 32-bit seed from the platform RNG
+ */
+export const createSeed = (): number => {
+  return Math.floor(Math.random() * 0x100000000);
+};
+
+/**
+ * Seeded PRNG (mulberry32)
+ * Returns a function that yields floats in [0, 1), like Math.random,
+ * but produces the same sequence for the same seed.
+ */
+export const createRandom = (seed: number): RandomFn => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Mixes an index into a seed (murmur3 finalizer), so the strokes of one
+ * artwork each get their own sequence while all following from its seed
+ */
+export const deriveSeed = (seed: number, index: number): number => {
+  let h = (seed ^ Math.imul(index + 1, 0x9E3779B1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+/**
+ * Fisher-Yates shuffle in place. Unlike sorting with a random comparator,
+ * the result depends only on the random sequence, not the engine's sort.
+ */
+export const shuffle = <T>(items: T[], random: RandomFn): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+/**
+ * Seeds are shown and typed as 8 hex digits
+ */
+export const formatSeed = (seed: number): string => {
+  return (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+};
+
+export const parseSeed = (text: string): number | null => {
+  const trimmed = text.trim();
+  if (!/^[0-9a-fA-F]{1,8}$/.test(trimmed)) return null;
+  return parseInt(trimmed, 16) >>> 0;
+};
@@ -0,0 +1,89 @@
+import { Stroke } from '../types';
+import { createStrokeRenderState, drawSmoothedSegment, drawStrokeEnd, StrokeRenderState } from './strokeRenderer';
+import { StampTarget } from './stamp';
+
+// Pause between strokes: the recorded gap, kept within these bounds (ms)
+const MIN_STROKE_PAUSE = 150;
+const MAX_STROKE_PAUSE = 800;
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+/**
+ * When each point of each stroke is reached, in ms from the start of the replay
+ */
+export interface ReplayTimeline {
+  pointTimes: number[][];
+  duration: number;
+}
+
+export const buildReplayTimeline = (strokes: Stroke[]): ReplayTimeline => {
+  let clock = 0;
+  let lastEndTime: number | null = null;
+
+  const pointTimes = strokes.map(stroke => {
+    const first = stroke.points[0]?.time ?? 0;
+
+    if (lastEndTime !== null) {
+      const gap = first - lastEndTime;
+      clock += Number.isFinite(gap) ? Math.min(MAX_STROKE_PAUSE, Math.max(MIN_STROKE_PAUSE, gap)) : MIN_STROKE_PAUSE;
+    }
+
+    // Times are kept monotonic, synthesized catch-up points may not be
+    let previous = 0;
+    const times = stroke.points.map(p => {
+      const offset = Number.isFinite(p.time - first) ? p.time - first : previous;
+      previous = Math.max(previous, offset);
+      return clock + previous;
+    });
+
+    clock += previous;
+    lastEndTime = stroke.points[stroke.points.length - 1]?.time ?? first;
+    return times;
+  });
+
+  return { pointTimes, duration: clock };
+};
+
+export interface ReplayRenderer {
+  duration: number;
+  // Draws everything written up to `clock` (ms) that isn't drawn yet. Returns true when done.
+  advanceTo: (clock: number) => boolean;
+}
+
+/**
+ * Redraws strokes progressively. Segments are drawn in the same order and
+ * with the same render state as renderStroke, so the finished replay is
+ * identical to the artwork.
+ */
+export const createReplayRenderer = (target: StampTarget, strokes: Stroke[]): ReplayRenderer => {
+  const timeline = buildReplayTimeline(strokes);
+  let strokeIndex = 0;
+  let pointIndex = 1;
+  let state: StrokeRenderState | null = null;
+
+  const advanceTo = (clock: number): boolean => {
+    while (strokeIndex < strokes.length) {
+      const stroke = strokes[strokeIndex];
+      const times = timeline.pointTimes[strokeIndex];
+
+      if (!state) {
+        if (times.length > 0 && times[0] > clock) return false;
+        state = createStrokeRenderState(stroke);
+      }
+
+      while (pointIndex < stroke.points.length && times[pointIndex] <= clock) {
+        drawSmoothedSegment(target, stroke.points, pointIndex, stroke.settings, state);
+        pointIndex++;
+      }
+      if (pointIndex < stroke.points.length) return false;
+
+      if (stroke.points.length > 1) drawStrokeEnd(target, stroke.settings, state);
+      strokeIndex++;
+      pointIndex = 1;
+      state = null;
+    }
+    return true;
+  };
+
+  return { duration: timeline.duration, advanceTo };
+};
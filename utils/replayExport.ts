@@ -0,0 +1,152 @@
+import { Stroke } from '../types';
+import { createReplayRenderer, ReplayRenderer } from './replay';
+import { createGifEncoder } from './gifEncoder';
+import { PAPER_COLOR } from './ink';
+
+const GIF_MAX_SIDE = 800;
+const GIF_FRAME_MS = 100;
+const VIDEO_MAX_SIDE = 1920;
+const VIDEO_FPS = 30;
+// The finished piece stays on screen this long at the end (ms)
+const END_HOLD = 1500;
+
+export type ReplayExportFormat = 'GIF' | 'WEBM';
+
+export interface ReplaySource {
+  strokes: Stroke[];
+  background: HTMLCanvasElement[]; // Layers under the strokes, e.g. generated text
+  width: number;                   // Document size in canvas units
+  height: number;
+}
+
+interface FrameComposer {
+  canvas: HTMLCanvasElement;
+  renderer: ReplayRenderer;
+  compose: () => void;
+}
+
+/**
+ * Replays strokes onto their own layer and composes paper, background layers
+ * and that layer into one output canvas per frame
+ */
+const createFrameComposer = (source: ReplaySource, maxSide: number): FrameComposer => {
+  const scale = Math.min(window.devicePixelRatio || 1, maxSide / Math.max(source.width, source.height));
+  const width = Math.max(2, Math.round(source.width * scale / 2) * 2); // Video encoders want even sizes
+  const height = Math.max(2, Math.round(source.height * scale / 2) * 2);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  const layerCtx = layer.getContext('2d');
+  if (!ctx || !layerCtx) throw new Error('Canvas 2D context unavailable');
+
+  layerCtx.setTransform(width / source.width, 0, 0, height / source.height, 0, 0);
+  layerCtx.lineCap = 'round';
+  layerCtx.lineJoin = 'round';
+
+  return {
+    canvas,
+    renderer: createReplayRenderer({ ctx: layerCtx }, source.strokes),
+    compose: () => {
+      ctx.fillStyle = PAPER_COLOR;
+      ctx.fillRect(0, 0, width, height);
+      source.background.forEach(bg => ctx.drawImage(bg, 0, 0, width, height));
+      ctx.drawImage(layer, 0, 0);
+    }
+  };
+};
+
+const getFramePixels = (canvas: HTMLCanvasElement) => {
+  return canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height).data;
+};
+
+// Yields to the browser so long encodes don't freeze the page
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Renders the replay frame by frame (faster than real time) into an
+ * animated GIF. `onProgress` receives 0 to 1.
+ */
+export const exportReplayGif = async (
+  source: ReplaySource,
+  speed: number,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  // The finished piece holds every color the animation will show
+  const final = createFrameComposer(source, GIF_MAX_SIDE);
+  final.renderer.advanceTo(Infinity);
+  final.compose();
+
+  const { canvas, renderer, compose } = createFrameComposer(source, GIF_MAX_SIDE);
+  const encoder = createGifEncoder(canvas.width, canvas.height, getFramePixels(final.canvas));
+  const step = GIF_FRAME_MS * speed;
+
+  for (let clock = 0, frame = 0; ; clock += step, frame++) {
+    const done = renderer.advanceTo(clock);
+    compose();
+    encoder.addFrame(getFramePixels(canvas), done ? END_HOLD : GIF_FRAME_MS);
+    if (done) break;
+
+    if (frame % 5 === 0) {
+      onProgress?.(Math.min(1, clock / Math.max(1, renderer.duration)));
+      await nextTask();
+    }
+  }
+
+  onProgress?.(1);
+  return encoder.finish();
+};
+
+const getVideoMimeType = (): string | undefined => {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+};
+
+export const canRecordVideo = () => !!getVideoMimeType();
+
+/**
+ * Records the replay in real time (divided by `speed`) with MediaRecorder
+ */
+export const recordReplayWebm = (
+  source: ReplaySource,
+  speed: number,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const mimeType = getVideoMimeType();
+  if (!mimeType) return Promise.reject(new Error('WebM recording is not supported in this browser'));
+
+  const { canvas, renderer, compose } = createFrameComposer(source, VIDEO_MAX_SIDE);
+  compose();
+
+  const recorder = new MediaRecorder(canvas.captureStream(VIDEO_FPS), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  return new Promise((resolve, reject) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    recorder.onerror = () => reject(new Error('WebM recording failed'));
+    recorder.start();
+
+    const start = performance.now();
+    const tick = (now: number) => {
+      const clock = (now - start) * speed;
+      const done = renderer.advanceTo(clock);
+      compose();
+      onProgress?.(Math.min(1, clock / Math.max(1, renderer.duration)));
+
+      if (done) {
+        setTimeout(() => recorder.stop(), END_HOLD);
+        return;
+      }
+      requestAnimationFrame(tick);
+    };
+    requestAnimationFrame(tick);
+  });
+};
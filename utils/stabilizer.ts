@@ -0,0 +1,121 @@
+import { Point, StabilizerMode } from '../types';
+import { getDistance, lerpStylus } from './brushPhysics';
+
+export interface Stabilizer {
+  // Feeds a raw input point, returns the brush points to draw (possibly none)
+  push: (point: Point) => Point[];
+  // Called on pointer up, returns any remaining brush points
+  finish: () => Point[];
+}
+
+// Strength 1.0 maps to these limits
+const MAX_AVERAGE_WINDOW = 16; // points
+const MAX_ROPE_LENGTH = 40;    // px
+
+// Catch-up never runs slower than this (px/ms), so the exit still tapers
+const MIN_CATCH_UP_VELOCITY = 0.5;
+const CATCH_UP_STEP = 2; // px
+
+/**
+ * Moving average: the brush is the mean of the last N input points.
+ * Times are the raw ones, so velocity follows the (smoothed) travel distance.
+ */
+const createAverageStabilizer = (start: Point, strength: number): Stabilizer => {
+  const windowSize = 1 + Math.round(strength * (MAX_AVERAGE_WINDOW - 1));
+  const window: Point[] = [start];
+
+  return {
+    push: (point: Point) => {
+      window.push(point);
+      if (window.length > windowSize) window.shift();
+
+      const n = window.length;
+      const avg = window.reduce(
+        (acc, p) => ({ x: acc.x + p.x / n, y: acc.y + p.y / n, pressure: acc.pressure + p.pressure / n }),
+        { x: 0, y: 0, pressure: 0 }
+      );
+      return [{ ...point, ...avg }];
+    },
+    finish: () => []
+  };
+};
+
+/**
+ * Lazy rope ("string"): the brush only moves once the pointer is further than
+ * the rope length away, and then is dragged along behind it at that distance.
+ * With catchUp the brush is pulled onto the pointer when it lifts.
+ */
+const createRopeStabilizer = (start: Point, strength: number, catchUp: boolean): Stabilizer => {
+  const ropeLength = strength * MAX_ROPE_LENGTH;
+  let brush: Point = start;
+  let pointer: Point = start;
+  let lastVelocity = 0;
+
+  return {
+    push: (point: Point) => {
+      pointer = point;
+      const dist = getDistance(brush, point);
+      if (dist <= ropeLength) return [];
+
+      const ratio = (dist - ropeLength) / dist;
+      const next: Point = {
+        ...point,
+        x: brush.x + (point.x - brush.x) * ratio,
+        y: brush.y + (point.y - brush.y) * ratio
+      };
+
+      const timeDiff = next.time - brush.time;
+      if (timeDiff > 0) lastVelocity = getDistance(brush, next) / timeDiff;
+      brush = next;
+      return [next];
+    },
+    finish: () => {
+      if (!catchUp) return [];
+
+      const dist = getDistance(brush, pointer);
+      if (dist < 0.5) return [];
+
+      // The pointer is already up, so there are no real timestamps left.
+      // Pull at the last brush speed to keep calculateBrushPhysics tapering.
+      const velocity = Math.max(MIN_CATCH_UP_VELOCITY, lastVelocity);
+      const steps = Math.ceil(dist / CATCH_UP_STEP);
+      const from = brush;
+      const startTime = Math.max(brush.time, pointer.time);
+      const points: Point[] = [];
+
+      for (let i = 1; i <= steps; i++) {
+        const t = i / steps;
+        points.push({
+          ...lerpStylus(from, pointer, t),
+          x: from.x + (pointer.x - from.x) * t,
+          y: from.y + (pointer.y - from.y) * t,
+          pressure: from.pressure + (pointer.pressure - from.pressure) * t,
+          time: startTime + (dist * t) / velocity
+        });
+      }
+      brush = pointer;
+      return points;
+    }
+  };
+};
+
+/**
+ * Creates a stabilizer for one stroke, starting at the pointer down position
+ */
+export const createStabilizer = (mode: StabilizerMode, strength: number, start: Point): Stabilizer => {
+  if (strength <= 0) mode = 'OFF';
+
+  switch (mode) {
+    case 'AVERAGE':
+      return createAverageStabilizer(start, strength);
+    case 'ROPE':
+      return createRopeStabilizer(start, strength, false);
+    case 'PULLED':
+      return createRopeStabilizer(start, strength, true);
+    default:
+      return {
+        push: (point: Point) => [point],
+        finish: () => []
+      };
+  }
+};
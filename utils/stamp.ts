@@ -0,0 +1,87 @@
+/**
+ * Where stamps go. Either side may be omitted, e.g. SVG export renders
+ * strokes without a canvas and re-rendering the screen skips the SVG.
+ */
+export interface StampTarget {
+  ctx?: CanvasRenderingContext2D | null;
+  svg?: string[] | null;
+}
+
+/**
+ * Eraser stamps are recorded in black, to be placed inside a luminance
+ * <mask> over everything drawn before the eraser stroke
+ */
+export const getSvgFill = (color: string, isEraser: boolean) => isEraser ? '#000' : color;
+
+/**
+ * Stamps a single ellipse onto the canvas and records it as an SVG element
+ */
+export const drawEllipseStamp = (
+  target: StampTarget,
+  x: number,
+  y: number,
+  rx: number,
+  ry: number,
+  rotation: number,
+  color: string,
+  opacity: number,
+  isEraser: boolean = false
+) => {
+  if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(rx) || !Number.isFinite(ry)) return;
+
+  const { ctx, svg } = target;
+  if (ctx) {
+    ctx.beginPath();
+    ctx.globalAlpha = opacity;
+    ctx.fillStyle = color;
+    ctx.ellipse(x, y, rx, ry, rotation, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  if (svg) {
+    const cx = x.toFixed(1);
+    const cy = y.toFixed(1);
+    const rX = rx.toFixed(1);
+    const rY = ry.toFixed(1);
+    const rotDeg = ((rotation * 180) / Math.PI).toFixed(1);
+    const op = opacity.toFixed(2);
+
+    svg.push(`<ellipse cx="${cx}" cy="${cy}" rx="${rX}" ry="${rY}" transform="rotate(${rotDeg} ${cx} ${cy})" fill="${getSvgFill(color, isEraser)}" fill-opacity="${op}" />`);
+  }
+};
+
+/**
+ * Stamps a rotated rectangle, the flat (chisel) counterpart of the ellipse
+ */
+export const drawRectStamp = (
+  target: StampTarget,
+  x: number,
+  y: number,
+  halfWidth: number,
+  halfHeight: number,
+  rotation: number,
+  color: string,
+  opacity: number,
+  isEraser: boolean = false
+) => {
+  if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(halfWidth) || !Number.isFinite(halfHeight)) return;
+
+  const { ctx, svg } = target;
+  if (ctx) {
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.fillStyle = color;
+    ctx.translate(x, y);
+    ctx.rotate(rotation);
+    ctx.fillRect(-halfWidth, -halfHeight, halfWidth * 2, halfHeight * 2);
+    ctx.restore();
+  }
+
+  if (svg) {
+    const cx = x.toFixed(1);
+    const cy = y.toFixed(1);
+    const rotDeg = ((rotation * 180) / Math.PI).toFixed(1);
+
+    svg.push(`<rect x="${(x - halfWidth).toFixed(1)}" y="${(y - halfHeight).toFixed(1)}" width="${(halfWidth * 2).toFixed(1)}" height="${(halfHeight * 2).toFixed(1)}" transform="rotate(${rotDeg} ${cx} ${cy})" fill="${getSvgFill(color, isEraser)}" fill-opacity="${opacity.toFixed(2)}" />`);
+  }
+};
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import { Resvg } from '@resvg/resvg-js';
+import { BrushSettings, Point, Stroke } from '../types';
+import { DEFAULT_PRESSURE_CURVE } from './pressureCurve';
+import { renderStrokes, renderStrokesSvg } from './strokeRenderer';
+import { compareInkCoverage, MAX_MISMATCH } from './svgCheck';
+
+const WIDTH = 240;
+const HEIGHT = 160;
+
+const BRUSH: BrushSettings = {
+  size: 10,
+  roughness: 0.45,
+  taper: 0.7,
+  color: '#1a1a1a',
+  concentration: 'DARK',
+  tipType: 'ELLIPSE',
+  roundness: 0.22,
+  angle: 85,
+  tipAngleMode: 'FIXED',
+  followStylus: true,
+  hardness: 0.8,
+  spacing: 0,
+  smoothing: 0.5,
+  stabilizer: 'OFF',
+  stabilizerStrength: 0.5,
+  entryPress: 0.3,
+  cornerPress: 0.3,
+  exitStyle: 'TAPER',
+  absorbency: 0.4,
+  wetness: 0.3,
+  inkLoad: 1.0,
+  inkDepletion: 0.2,
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  slant: 0,
+  fontSize: 150,
+  fontStyle: 'PEN',
+  customFontId: null,
+  weightOption: 'NORMAL',
+  writingDirection: 'HORIZONTAL',
+  textAlign: 'CENTER',
+  fitToBox: false,
+  textReveal: 'WRITE',
+  seed: 0x5e0e,
+  seedLocked: false,
+  isEraser: false
+};
+
+// Mouse input (no pressure) sampled every 8 ms along a path
+const tracePath = (path: (t: number) => { x: number; y: number }, samples: number): Point[] =>
+  Array.from({ length: samples + 1 }, (_, i) => ({ ...path(i / samples), pressure: -1, time: i * 8 }));
+
+const makeStroke = (id: string, points: Point[], settings: Partial<BrushSettings>, ink = 1): Stroke => ({
+  id,
+  points,
+  settings: { ...BRUSH, ...settings },
+  seed: id.length * 7919,
+  ink,
+  pressureCurve: DEFAULT_PRESSURE_CURVE
+});
+
+const horizontal = makeStroke('horizontal', tracePath(t => ({ x: 30 + t * 170, y: 50 + Math.sin(t * 3) * 6 }), 40), {
+  size: 14,
+  exitStyle: 'HOOK'
+});
+
+const curve = makeStroke('curve', tracePath(t => ({ x: 40 + t * 150, y: 130 - Math.sin(t * Math.PI) * 60 }), 50), {
+  size: 18,
+  tipType: 'BRISTLE',
+  inkDepletion: 1
+}, 0.7);
+
+const chisel = makeStroke('chisel', tracePath(t => ({ x: 200, y: 20 + t * 120 }), 30), {
+  size: 16,
+  tipType: 'CHISEL',
+  concentration: 'LIGHT',
+  roundness: 0.6,
+  tipAngleMode: 'DIRECTION'
+});
+
+// The brush rests at the end: repeated points, as the dwell timer records them
+const resting = (() => {
+  const points = tracePath(t => ({ x: 30 + t * 40, y: 100 + t * 20 }), 10);
+  const last = points[points.length - 1];
+  for (let i = 1; i <= 8; i++) points.push({ ...last, time: last.time + i * 100 });
+  return makeStroke('resting', points, { size: 12, concentration: 'MEDIUM', absorbency: 0.9, wetness: 0.9 });
+})();
+
+const eraser = makeStroke('eraser', tracePath(t => ({ x: 110 + t * 10, y: 10 + t * 140 }), 30), {
+  size: 20,
+  roundness: 1,
+  isEraser: true
+});
+
+const renderCanvas = (strokes: Stroke[]) => {
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const ctx = canvas.getContext('2d');
+  renderStrokes({ ctx: ctx as unknown as CanvasRenderingContext2D }, strokes);
+  return ctx.getImageData(0, 0, WIDTH, HEIGHT).data;
+};
+
+const renderSvg = (strokes: Stroke[]) => {
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}">`,
+    ...renderStrokesSvg(strokes, WIDTH, HEIGHT),
+    `</svg>`
+  ].join('\n');
+  return new Resvg(svg, { fitTo: { mode: 'original' } }).render().pixels;
+};
+
+// The exported SVG has to look like the canvas it was exported from
+describe('renderStrokesSvg', () => {
+  const fixtures: [string, Stroke[]][] = [
+    ['a stroke ending in a hook', [horizontal]],
+    ['a bristle stroke running out of ink', [curve]],
+    ['a diluted chisel stroke', [chisel]],
+    ['a resting brush pooling ink', [resting]],
+    ['an eraser over earlier strokes only', [horizontal, curve, eraser, chisel, resting]]
+  ];
+
+  it.each(fixtures)('matches the canvas for %s', (_, strokes) => {
+    const result = compareInkCoverage(renderCanvas(strokes), renderSvg(strokes));
+    expect(result.inked).toBeGreaterThan(500);
+    expect(result.mismatch).toBeLessThanOrEqual(MAX_MISMATCH);
+  });
+
+  it('erases in the SVG too', () => {
+    const before = compareInkCoverage(renderCanvas([horizontal]), renderSvg([horizontal, eraser]));
+    expect(before.ok).toBe(false);
+  });
+
+  it('renders the same document the same way every time', () => {
+    expect(renderStrokesSvg([horizontal, curve, eraser], WIDTH, HEIGHT))
+      .toEqual(renderStrokesSvg([horizontal, curve, eraser], WIDTH, HEIGHT));
+  });
+});
@@ -0,0 +1,316 @@
+import { Point, BrushSettings, Stroke, PressureCurve } from '../types';
+import { calculateBrushPhysics, getSplinePoints, getDistance, getAngle, getTipOrientation, getInkOpacity, getStampOpacity } from './brushPhysics';
+import { createRandom, RandomFn } from './random';
+import { drawEllipseStamp, StampTarget } from './stamp';
+import { drawInkBleed, getBleedAmount, getDwellBleedAmount } from './inkBleed';
+import { mixInk } from './ink';
+import { drawTipStamp, getTipSvgDefs, Bristle } from './brushTips';
+import { createStrokeShapeState, detectCorner, drawCorner, drawEntry, drawExit, StrokeShapeState } from './strokeShape';
+
+// Stroke length (px) that empties a fully loaded brush at depletion rate 1.0
+const INK_STROKE_LENGTH = 1000;
+
+/**
+ * State carried from one segment of a stroke to the next
+ */
+export interface StrokeRenderState {
+  random: RandomFn;
+  ink: number; // Remaining ink load, 0 (dry) to 1 (fully loaded)
+  pressureCurve: PressureCurve;
+  shape: StrokeShapeState; // Entry, corner and exit tracking (기필 / 전절 / 수필)
+  bristles?: Bristle[];    // Hair tracks of a bristle tip, laid out on first use
+}
+
+export const createStrokeRenderState = (stroke: Stroke): StrokeRenderState => ({
+  random: createRandom(stroke.seed),
+  ink: stroke.ink,
+  pressureCurve: stroke.pressureCurve,
+  shape: createStrokeShapeState()
+});
+
+/**
+ * Renders the part of a stroke between two input points.
+ * All randomness is drawn from `state.random`, so feeding the same points with
+ * the same starting state reproduces the segment exactly.
+ */
+export const drawStrokeSegment = (
+  target: StampTarget,
+  lastPoint: Point,
+  currentPoint: Point,
+  settings: BrushSettings,
+  state: StrokeRenderState
+) => {
+  const { ctx } = target;
+  const { random } = state;
+
+  let targetSize = settings.size;
+  let velocity = 0;
+  let dist = 0;
+  let opacity = 1.0;
+
+  if (settings.size > 1) {
+    const physics = calculateBrushPhysics(lastPoint, currentPoint, settings, settings.isEraser ? 1 : state.ink, state.pressureCurve);
+    targetSize = physics.size;
+    velocity = physics.velocity;
+    dist = physics.dist;
+    opacity = physics.opacity;
+  } else {
+    dist = Math.sqrt(Math.pow(currentPoint.x - lastPoint.x, 2) + Math.pow(currentPoint.y - lastPoint.y, 2));
+    targetSize = settings.size === 0 ? 0.5 : settings.size;
+  }
+
+  const baseStep = Math.max(0.5, targetSize * 0.05);
+  const spacingFactor = settings.spacing * targetSize * 1.5;
+  const stepSize = baseStep + spacingFactor;
+
+  const steps = Math.ceil(dist / stepSize);
+  const direction = getAngle(lastPoint, currentPoint);
+  const tip = getTipOrientation(currentPoint, settings, direction);
+  const brushAngleRad = tip.rotation;
+  const blurAmount = (settings.hardness >= 0.95 || settings.size <= 1) ? 0 : targetSize * (1 - settings.hardness);
+
+  // 농담: diluted ink is lighter, more transparent and spreads further
+  const ink = mixInk(settings.color, settings.concentration);
+  const color = ink.color;
+  // The reservoir and dilution set how dark the stroke is, not each stamp
+  const stampOpacity = settings.isEraser
+    ? opacity * ink.alpha
+    : getStampOpacity(opacity * ink.alpha, targetSize / 2, (targetSize / 2) * tip.roundness, brushAngleRad, direction, stepSize);
+  const shapeStroke = !settings.isEraser && settings.size > 1;
+
+  if (ctx) {
+    // ERASER LOGIC: Use destination-out composite op
+    ctx.globalCompositeOperation = settings.isEraser ? 'destination-out' : 'source-over';
+
+    if (!settings.isEraser) {
+      ctx.shadowBlur = blurAmount;
+      ctx.shadowColor = color;
+    } else {
+      ctx.shadowBlur = 0;
+    }
+  }
+
+  if (shapeStroke && dist > 0) {
+    const { shape } = state;
+
+    if (!shape.entryDone) {
+      shape.entryDone = true;
+      drawEntry(target, lastPoint, direction, targetSize, brushAngleRad, tip.roundness, settings, color, stampOpacity, state);
+    }
+    if (detectCorner(shape, lastPoint, currentPoint, targetSize)) {
+      drawCorner(target, lastPoint, targetSize, brushAngleRad, tip.roundness, settings, color, stampOpacity, state);
+    }
+    shape.last = { point: currentPoint, size: targetSize, velocity, rotation: brushAngleRad, roundness: tip.roundness };
+  }
+
+  // Wet ink bleeds, a drying brush leaves crisp, broken edges instead
+  const bleed = settings.isEraser || settings.size <= 1 ? 0 : Math.min(1, getBleedAmount(settings, velocity) * ink.bleed) * state.ink;
+  const inkDryness = settings.isEraser ? 0 : Math.pow(1 - state.ink, 2) * 0.7;
+
+  // A brush resting in place keeps feeding ink into the paper
+  const dwellTime = currentPoint.time - lastPoint.time;
+  if (!settings.isEraser && settings.size > 1 && dist < 1 && dwellTime > 0) {
+    const dwellBleed = Math.min(1, getDwellBleedAmount(settings, dwellTime) * ink.bleed) * state.ink;
+    if (dwellBleed > 0) {
+      drawInkBleed(target, currentPoint.x, currentPoint.y, targetSize / 2, color, dwellBleed, random);
+    }
+  }
+
+  for (let i = 0; i < steps; i++) {
+    const t = i / steps;
+    const x = lastPoint.x + (currentPoint.x - lastPoint.x) * t;
+    const y = lastPoint.y + (currentPoint.y - lastPoint.y) * t;
+
+    const roughnessThreshold = random();
+    const dryBrushFactor = (velocity * settings.roughness) / 5 + inkDryness;
+
+    if (settings.size > 1 && roughnessThreshold < dryBrushFactor && !settings.isEraser) continue;
+
+    const radiusX = targetSize / 2;
+    const radiusY = (targetSize / 2) * tip.roundness;
+
+    drawTipStamp(target, settings.tipType, state, x, y, radiusX, radiusY, brushAngleRad, color, stampOpacity, settings.isEraser);
+
+    if (bleed > 0 && random() < bleed) {
+      drawInkBleed(target, x, y, radiusX, color, bleed, random);
+    }
+
+    if (settings.size > 1 && (opacity < 0.9 || settings.roughness > 0.2) && !settings.isEraser) {
+      for (let j = 0; j < 3; j++) {
+        const angleOffset = (random() - 0.5) * Math.PI;
+        const distOffset = (random() * targetSize) / 2;
+        const bx = x + Math.cos(brushAngleRad + angleOffset) * distOffset;
+        const by = y + Math.sin(brushAngleRad + angleOffset) * distOffset;
+
+        drawEllipseStamp(target, bx, by, radiusX * 0.3, radiusY * 0.3, brushAngleRad, color, stampOpacity * 0.4 * random(), false);
+      }
+    }
+  }
+
+  if (ctx) {
+    ctx.shadowBlur = 0;
+    ctx.globalCompositeOperation = 'source-over'; // Reset
+  }
+
+  if (!settings.isEraser) {
+    state.ink = Math.max(0, state.ink - (dist * (settings.inkDepletion || 0)) / INK_STROKE_LENGTH);
+  }
+};
+
+// Approximate length (px) of each spline piece fed to drawStrokeSegment
+const SPLINE_STEP = 4;
+
+/**
+ * Renders the segment ending at points[index] through a four-point window
+ * (points[index - 2] .. points[index + 1]). Missing neighbours at the ends of
+ * the stroke are replaced by the endpoint itself, so the segment ending at the
+ * newest point can only be drawn once the point after it (or pointer up) arrives.
+ */
+export const drawSmoothedSegment = (
+  target: StampTarget,
+  points: Point[],
+  index: number,
+  settings: BrushSettings,
+  state: StrokeRenderState
+) => {
+  if (index < 1 || index >= points.length) return;
+
+  const p1 = points[index - 1];
+  const p2 = points[index];
+  const smoothing = settings.smoothing || 0;
+
+  if (smoothing <= 0) {
+    drawStrokeSegment(target, p1, p2, settings, state);
+    return;
+  }
+
+  const p0 = points[index - 2] || p1;
+  const p3 = points[index + 1] || p2;
+  const numOfSegments = Math.ceil(getDistance(p1, p2) / SPLINE_STEP);
+  const splinePoints = getSplinePoints(p0, p1, p2, p3, smoothing * 0.5, numOfSegments);
+
+  for (let i = 1; i < splinePoints.length; i++) {
+    drawStrokeSegment(target, splinePoints[i - 1], splinePoints[i], settings, state);
+  }
+};
+
+/**
+ * Lifts the brush off the paper after the last segment has been drawn (수필)
+ */
+export const drawStrokeEnd = (target: StampTarget, settings: BrushSettings, state: StrokeRenderState) => {
+  if (settings.isEraser || settings.size <= 1) return;
+
+  const { ctx } = target;
+  const ink = mixInk(settings.color, settings.concentration);
+  const opacity = getInkOpacity(state.ink) * ink.alpha;
+  const size = state.shape.last?.size ?? settings.size;
+
+  if (ctx) {
+    ctx.shadowBlur = settings.hardness >= 0.95 ? 0 : size * (1 - settings.hardness);
+    ctx.shadowColor = ink.color;
+  }
+
+  drawExit(target, state.shape, settings, ink.color, opacity, state);
+
+  if (ctx) ctx.shadowBlur = 0;
+};
+
+/**
+ * Replays a whole stroke from its recorded points and seed.
+ * Returns the state it ended in (e.g. the ink left in the brush).
+ */
+export const renderStroke = (target: StampTarget, stroke: Stroke): StrokeRenderState => {
+  const state = createStrokeRenderState(stroke);
+  for (let i = 1; i < stroke.points.length; i++) {
+    drawSmoothedSegment(target, stroke.points, i, stroke.settings, state);
+  }
+  drawStrokeEnd(target, stroke.settings, state);
+  return state;
+};
+
+/**
+ * Renders a list of strokes in order (later strokes, including erasers, on top)
+ */
+export const renderStrokes = (target: StampTarget, strokes: Stroke[]) => {
+  strokes.forEach(stroke => renderStroke(target, stroke));
+};
+
+// Overlapping stamps whose shadows build up a stroke's soft edge on the canvas
+// (more for a bristle tip, whose hairs each cast their own)
+const SOFT_EDGE_LAYERS = 3;
+const BRISTLE_SOFT_EDGE_LAYERS = 5;
+
+/**
+ * The soft edge canvas shadows give a stroke (see drawStrokeSegment) as an
+ * SVG filter: a blurred copy under the stamps. On the canvas every stamp
+ * casts its own shadow and the shadows build up, so the copy's alpha is
+ * raised as that many layers of the stroke's ink would raise it. The blur
+ * follows the brush size rather than each stamp's.
+ */
+const getSoftEdgeFilter = (stroke: Stroke, id: string, width: number, height: number): string | null => {
+  const { settings } = stroke;
+  if (settings.hardness >= 0.95 || settings.size <= 1) return null;
+
+  // Canvas shadowBlur is twice the standard deviation of the Gaussian
+  const deviation = (settings.size * (1 - settings.hardness)) / 2;
+
+  const layers = settings.tipType === 'BRISTLE' ? BRISTLE_SOFT_EDGE_LAYERS : SOFT_EDGE_LAYERS;
+  const opacity = mixInk(settings.color, settings.concentration).alpha * getInkOpacity(stroke.ink);
+  const layerOpacity = 1 - Math.pow(1 - opacity, 1 / layers);
+  const buildUp = Array.from({ length: 21 }, (_, i) =>
+    (1 - Math.pow(1 - layerOpacity * Math.min(1, i / 20 / opacity), layers)).toFixed(3)
+  ).join(' ');
+
+  return `<filter id="${id}" filterUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}" color-interpolation-filters="sRGB">` +
+    `<feGaussianBlur stdDeviation="${deviation.toFixed(2)}" />` +
+    `<feComponentTransfer><feFuncA type="table" tableValues="${buildUp}" /></feComponentTransfer>` +
+    `<feMerge><feMergeNode /><feMergeNode in="SourceGraphic" /></feMerge></filter>`;
+};
+
+/**
+ * Renders strokes as SVG elements. An eraser only affects what was drawn
+ * before it, so everything so far is wrapped in a group masked by the
+ * eraser's (black) stamps, the SVG equivalent of destination-out.
+ * Definitions the stamps share come first, once.
+ */
+export const renderStrokesSvg = (strokes: Stroke[], width: number, height: number): string[] => {
+  let content: string[] = [];
+
+  const filters: string[] = [];
+
+  strokes.forEach((stroke, i) => {
+    if (!stroke.settings.isEraser) {
+      const stamps: string[] = [];
+      renderStroke({ svg: stamps }, stroke);
+      const blur = getSoftEdgeFilter(stroke, `seoye-soft-${i}`, width, height);
+      if (!blur || stamps.length === 0) {
+        content.push(...stamps);
+        return;
+      }
+      filters.push(blur);
+      content.push(`<g filter="url(#seoye-soft-${i})">`, ...stamps, `</g>`);
+      return;
+    }
+
+    const eraser: string[] = [];
+    renderStroke({ svg: eraser }, stroke);
+    if (eraser.length === 0 || content.length === 0) return;
+
+    const id = `seoye-eraser-${i}`;
+    content = [
+      `<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">`,
+      `<rect x="0" y="0" width="${width}" height="${height}" fill="#fff" />`,
+      ...eraser,
+      `</mask>`,
+      `<g mask="url(#${id})">`,
+      ...content,
+      `</g>`
+    ];
+  });
+
+  const defs = [
+    strokes.some(stroke => stroke.settings.tipType === 'TEXTURE') ? getTipSvgDefs() : '',
+    filters.length > 0 ? `<defs>${filters.join('')}</defs>` : ''
+  ].filter(Boolean);
+  return [...defs, ...content];
+};
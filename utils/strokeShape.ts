@@ -0,0 +1,192 @@
+import { Point, BrushSettings } from '../types';
+import { getDistance, getStampOpacity } from './brushPhysics';
+import { StampTarget } from './stamp';
+import { drawTipStamp, TipContext } from './brushTips';
+
+// A turn sharper than this within the detection window is a 전절 (corner)
+const CORNER_ANGLE = Math.PI / 3;
+// Speed (px/ms) at which the exit sweep reaches its full length
+const EXIT_SWEEP_VELOCITY = 0.5;
+// How far a hook (갈고리) turns back against the stroke
+const HOOK_TURN = (Math.PI * 3) / 4;
+// A stroke still bending more than this at its end curls the hook the same way
+const HOOK_FOLLOW_CURVE = Math.PI / 12;
+
+/**
+ * What the shape model remembers while a stroke is rendered
+ */
+export interface StrokeShapeState {
+  entryDone: boolean;
+  travelled: number;                       // Path length so far (px)
+  heading: number | null;                  // Direction of the last segment
+  turns: { at: number; angle: number }[];  // Recent heading changes
+  lastCornerAt: number;
+  // The brush as it was at the end of the last segment, used for the exit
+  last: {
+    point: Point;
+    size: number;
+    velocity: number;
+    rotation: number;
+    roundness: number;
+  } | null;
+}
+
+export const createStrokeShapeState = (): StrokeShapeState => ({
+  entryDone: false,
+  travelled: 0,
+  heading: null,
+  turns: [],
+  lastCornerAt: -Infinity,
+  last: null
+});
+
+const normalizeAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+/**
+ * Follows the stroke direction and reports a corner once the heading has
+ * turned more than CORNER_ANGLE within about half a brush width of path.
+ * Summing the turns over a window keeps sub-pixel jitter from counting.
+ */
+export const detectCorner = (shape: StrokeShapeState, from: Point, to: Point, size: number): boolean => {
+  const dist = getDistance(from, to);
+  if (dist < 0.5) return false;
+
+  const heading = Math.atan2(to.y - from.y, to.x - from.x);
+  if (shape.heading !== null) {
+    shape.turns.push({ at: shape.travelled, angle: normalizeAngle(heading - shape.heading) });
+  }
+  shape.heading = heading;
+  shape.travelled += dist;
+
+  const window = Math.max(6, size * 0.5);
+  shape.turns = shape.turns.filter(turn => turn.at >= shape.travelled - window);
+
+  const total = shape.turns.reduce((sum, turn) => sum + turn.angle, 0);
+  if (Math.abs(total) > CORNER_ANGLE && shape.travelled - shape.lastCornerAt > window * 2) {
+    shape.lastCornerAt = shape.travelled;
+    shape.turns = [];
+    return true;
+  }
+  return false;
+};
+
+/**
+ * 기필: the brush is pressed in at the start of the stroke, leaving a rounder,
+ * heavier head set slightly behind the start point (역입, entering against
+ * the stroke direction).
+ */
+export const drawEntry = (
+  target: StampTarget,
+  start: Point,
+  direction: number,
+  size: number,
+  rotation: number,
+  roundness: number,
+  settings: BrushSettings,
+  color: string,
+  opacity: number,
+  tip: TipContext
+) => {
+  const press = settings.entryPress || 0;
+  if (press <= 0) return;
+
+  const radius = (size / 2) * (1 + press * 0.5);
+  const headRoundness = roundness + (1 - roundness) * 0.5 * press;
+  const back = size * 0.25 * press;
+
+  for (let i = 0; i < 3; i++) {
+    const offset = back * (1 - i / 2);
+    const x = start.x - Math.cos(direction) * offset;
+    const y = start.y - Math.sin(direction) * offset;
+    const jitter = 0.9 + tip.random() * 0.1;
+    drawTipStamp(target, settings.tipType, tip, x, y, radius * jitter, radius * headRoundness * jitter, rotation, color, opacity);
+  }
+};
+
+/**
+ * 전절: at a sharp turn the brush pauses and pivots, thickening the corner
+ */
+export const drawCorner = (
+  target: StampTarget,
+  corner: Point,
+  size: number,
+  rotation: number,
+  roundness: number,
+  settings: BrushSettings,
+  color: string,
+  opacity: number,
+  tip: TipContext
+) => {
+  const press = settings.cornerPress || 0;
+  if (press <= 0) return;
+
+  const radius = (size / 2) * (1 + press * 0.4);
+  const cornerRoundness = roundness + (1 - roundness) * 0.4 * press;
+  for (let i = 0; i < 2; i++) {
+    const jitter = 0.9 + tip.random() * 0.1;
+    drawTipStamp(target, settings.tipType, tip, corner.x, corner.y, radius * jitter, radius * cornerRoundness * jitter, rotation + i * 0.2 * press, color, opacity);
+  }
+};
+
+/**
+ * Which way a hook turns (1 = clockwise on screen, -1 = counter-clockwise).
+ * A stroke that is still bending carries on in its own direction; a straight
+ * one flicks toward the lower left, as 亅 and 가로갈고리 do, mirrored for
+ * strokes written leftward or upward.
+ */
+const getHookDirection = (shape: StrokeShapeState, heading: number): number => {
+  const curve = shape.turns.reduce((sum, turn) => sum + turn.angle, 0);
+  if (Math.abs(curve) > HOOK_FOLLOW_CURVE) return Math.sign(curve);
+  return Math.sin(heading) + Math.cos(heading) >= 0 ? 1 : -1;
+};
+
+/**
+ * 수필: how the brush leaves the paper.
+ * TAPER sweeps out along the last direction, longer the faster the brush
+ * was moving when lifted (a resting brush lifts bluntly).
+ * HOOK flicks back against the stroke, like the hook of 亅 or a 가로갈고리.
+ * `opacity` is the opacity of the tail as a whole.
+ */
+export const drawExit = (
+  target: StampTarget,
+  shape: StrokeShapeState,
+  settings: BrushSettings,
+  color: string,
+  opacity: number,
+  tip: TipContext
+) => {
+  const last = shape.last;
+  if (!last || shape.heading === null || settings.exitStyle === 'NONE' || !settings.exitStyle) return;
+
+  const isHook = settings.exitStyle === 'HOOK';
+  const sweep = isHook ? 1 : Math.min(1, last.velocity / EXIT_SWEEP_VELOCITY);
+  const length = last.size * (isHook ? 1.5 : 1.2) * sweep;
+  if (length < 1) return;
+
+  const stepSize = Math.max(0.5, last.size * 0.05);
+  const steps = Math.ceil(length / stepSize);
+  const stampOpacity = getStampOpacity(opacity, last.size / 2, (last.size / 2) * last.roundness, last.rotation, shape.heading, stepSize);
+
+  let x = last.point.x;
+  let y = last.point.y;
+  let heading = shape.heading;
+  const hookTurn = isHook ? getHookDirection(shape, heading) * HOOK_TURN : 0;
+
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+
+    if (isHook && t > 0.3) {
+      // Curl back over the remaining part of the tail
+      heading += hookTurn / (steps * 0.7);
+    }
+    x += Math.cos(heading) * stepSize;
+    y += Math.sin(heading) * stepSize;
+
+    // Thins out and breaks up as the hairs leave the paper
+    const size = last.size * Math.pow(1 - t, 1.5);
+    if (size < 0.3) break;
+    if (tip.random() < t * 0.5 * (0.5 + settings.roughness)) continue;
+
+    drawTipStamp(target, settings.tipType, tip, x, y, size / 2, (size / 2) * last.roundness, last.rotation, color, stampOpacity);
+  }
+};
@@ -0,0 +1,31 @@
+// Alpha (0-255) above which a pixel counts as inked in either image
+export const INK_THRESHOLD = 90;
+// Share of inked pixels allowed to differ between the canvas and its SVG export.
+// The SVG only approximates the soft edges canvas shadow blur gives strokes, so edges differ a little.
+export const MAX_MISMATCH = 0.05;
+
+export interface SvgCheckResult {
+  mismatch: number; // Share of inked pixels that are inked in only one image
+  inked: number;    // Pixels inked in either image
+  ok: boolean;
+}
+
+/**
+ * Compares the ink coverage of two RGBA images of the same size pixel by
+ * pixel, e.g. the canvas and its exported SVG rasterized at the same resolution
+ */
+export const compareInkCoverage = (expected: ArrayLike<number>, actual: ArrayLike<number>): SvgCheckResult => {
+  if (expected.length !== actual.length) throw new Error('Images differ in size');
+
+  let inked = 0;
+  let differing = 0;
+  for (let i = 3; i < expected.length; i += 4) {
+    const a = expected[i] > INK_THRESHOLD;
+    const b = actual[i] > INK_THRESHOLD;
+    if (a || b) inked++;
+    if (a !== b) differing++;
+  }
+
+  const mismatch = inked === 0 ? 0 : differing / inked;
+  return { mismatch, inked, ok: mismatch <= MAX_MISMATCH };
+};
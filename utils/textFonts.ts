@@ -0,0 +1,116 @@
+import { BrushSettings } from '../types';
+import { getUserFontData, getUserFontFamily } from './userFonts';
+
+/**
+ * Face generated text is set in
+ */
+export interface TextFont {
+  family: string;
+  weight: string;
+}
+
+export const getTextFont = (settings: BrushSettings, text: string): TextFont => {
+  let family = 'Nanum Pen Script';
+  const hasKorean = /[ㄱ-ㅎ|ㅏ-ㅣ|가-힣]/.test(text);
+
+  if (settings.fontStyle === 'HAND') {
+    family = hasKorean ? 'Hi Melody' : 'Dancing Script';
+  } else if (settings.fontStyle === 'BRUSH') {
+    family = 'Noto Serif KR';
+  } else if (settings.fontStyle === 'CUSTOM' && settings.customFontId) {
+    family = getUserFontFamily(settings.customFontId);
+  }
+
+  return { family, weight: settings.fontStyle === 'BRUSH' ? '900' : 'normal' };
+};
+
+export const getFontSpec = (font: TextFont, size: number): string => {
+  return `${font.weight} ${size}px '${font.family}'`;
+};
+
+// Whether any @font-face (or loaded user font) declares the family at all.
+// Without one, e.g. a user font that failed to register, the canvas would
+// quietly fall back to a system face.
+const isFamilyDeclared = (family: string): boolean => {
+  let declared = false;
+  document.fonts.forEach(face => {
+    if (face.family.replace(/["']/g, '') === family) declared = true;
+  });
+  return declared;
+};
+
+/**
+ * True when the faces needed for these characters are loaded, so drawing
+ * now uses the real font
+ */
+export const isTextFontReady = (font: TextFont, text: string): boolean => {
+  return isFamilyDeclared(font.family) && document.fonts.check(getFontSpec(font, 16), text);
+};
+
+/**
+ * Loads the faces needed for these characters (web fonts are split into
+ * subsets by character range). Rejects if the family is missing or a face fails.
+ */
+export const loadTextFont = async (font: TextFont, text: string): Promise<void> => {
+  // Fonts still being declared or fetched by the page settle first
+  await document.fonts.ready;
+  if (!isFamilyDeclared(font.family)) {
+    throw new Error(`Font "${font.family}" is not available`);
+  }
+  const faces = await document.fonts.load(getFontSpec(font, 16), text);
+  if (faces.some(face => face.status === 'error')) {
+    throw new Error(`Font "${font.family}" failed to load`);
+  }
+};
+
+/**
+ * Where a face can be loaded from. The particle worker has a font set of its
+ * own, so it is handed the faces the page uses.
+ */
+export interface FontSource {
+  family: string;
+  source: string | ArrayBuffer; // CSS src list, or the font file itself
+  descriptors: FontFaceDescriptors;
+}
+
+// The @font-face rules declaring a family, with their URLs made absolute
+const getDeclaredSources = (family: string): FontSource[] => {
+  const sources: FontSource[] = [];
+  Array.from(document.styleSheets).forEach(sheet => {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch (e) {
+      return; // Cross-origin sheets can't be read
+    }
+    const base = sheet.href ?? document.baseURI;
+    Array.from(rules).forEach(rule => {
+      if (!(rule instanceof CSSFontFaceRule)) return;
+      const { style } = rule;
+      if (style.getPropertyValue('font-family').replace(/["']/g, '').trim() !== family) return;
+
+      const source = style.getPropertyValue('src')
+        .replace(/url\((["']?)([^"')]+)\1\)/g, (_, quote, url) => `url("${new URL(url, base).href}")`);
+      sources.push({
+        family,
+        source,
+        descriptors: {
+          weight: style.getPropertyValue('font-weight') || 'normal',
+          style: style.getPropertyValue('font-style') || 'normal',
+          unicodeRange: style.getPropertyValue('unicode-range') || 'U+0-10FFFF'
+        }
+      });
+    });
+  });
+  return sources;
+};
+
+/**
+ * Every face declared for the font: a user font's file, or the @font-face
+ * rules of a built-in one
+ */
+export const getTextFontSources = (font: TextFont): FontSource[] => {
+  const data = getUserFontData(font.family);
+  if (data) return [{ family: font.family, source: data, descriptors: {} }];
+  return getDeclaredSources(font.family);
+};
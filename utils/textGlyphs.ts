@@ -0,0 +1,73 @@
+import { TextBlock } from '../types';
+import { GlyphBox } from './textReveal';
+import { getFontSpec, getTextFont } from './textFonts';
+import { drawHorizontalText, fitFontSize, measureHorizontalText, TextContext, TextLayoutOptions } from './textLayout';
+import { drawVerticalText, measureVerticalText } from './verticalText';
+
+/**
+ * Sets a block's text into a context in device pixels, in its box or across
+ * the whole width x height. Returns the box of every character in reading order.
+ */
+export const drawTextGlyphs = (
+  ctx: TextContext,
+  block: TextBlock,
+  width: number,
+  height: number,
+  dpr: number,
+  color: string
+): GlyphBox[] => {
+  const { text, settings, box: textBox } = block;
+  ctx.fillStyle = color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const font = getTextFont(settings, text);
+  const isCursive = font.family === 'Dancing Script';
+
+  const spacingToUse = isCursive ? 0 : settings.letterSpacing;
+  try {
+      // @ts-ignore
+      ctx.letterSpacing = `${spacingToUse}px`;
+  } catch (e) {}
+
+  const isVertical = settings.writingDirection === 'VERTICAL';
+
+  // Text is laid out in its box, or across the whole canvas without one
+  const box = textBox
+    ? { left: textBox.x * dpr, top: textBox.y * dpr, width: textBox.width * dpr, height: textBox.height * dpr }
+    : { left: 0, top: 0, width, height };
+  const lines = text.split('\n');
+  const layoutOptions = (size: number): TextLayoutOptions => ({
+    fontSize: size,
+    lineHeight: settings.lineHeight || 1.2,
+    letterSpacing: spacingToUse,
+    slant: settings.slant || 0,
+    bold: settings.weightOption === 'BOLD',
+    align: settings.textAlign
+  });
+  const measure = (size: number) => {
+    ctx.font = getFontSpec(font, size);
+    return isVertical
+      ? measureVerticalText(ctx, lines, layoutOptions(size))
+      : measureHorizontalText(ctx, lines, layoutOptions(size));
+  };
+
+  const fontSize = settings.fitToBox
+    ? fitFontSize(measure, box, (settings.fontSize || 100) * dpr)
+    : (settings.fontSize || 100) * dpr;
+  ctx.font = getFontSpec(font, fontSize);
+
+  if (settings.weightOption === 'BOLD') {
+     // Reduced stroke width for BOLD to prevent clumping
+     ctx.lineWidth = fontSize * 0.035;
+     ctx.strokeStyle = color;
+     ctx.lineJoin = 'round';
+  }
+
+  const glyphs = isVertical
+    ? drawVerticalText(ctx, lines, box, layoutOptions(fontSize))
+    : drawHorizontalText(ctx, lines, box, layoutOptions(fontSize));
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  return glyphs;
+};
@@ -0,0 +1,92 @@
+import { TextAlignment } from '../types';
+import { GlyphBox } from './textReveal';
+
+/**
+ * Area the text is laid out in, in buffer pixels
+ */
+export interface LayoutBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Text is set on the page and in the particle worker
+export type TextContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface TextLayoutOptions {
+  fontSize: number;      // Buffer pixels
+  lineHeight: number;    // Line (or column) pitch as a multiple of the font size
+  letterSpacing: number; // Buffer pixels
+  slant: number;
+  bold: boolean;
+  align: TextAlignment;
+}
+
+export interface TextExtent {
+  width: number;
+  height: number;
+}
+
+export const measureHorizontalText = (ctx: TextContext, lines: string[], options: TextLayoutOptions): TextExtent => ({
+  width: Math.max(0, ...lines.map(line => ctx.measureText(line).width)),
+  height: lines.length * options.fontSize * options.lineHeight
+});
+
+/**
+ * Sets lines top to bottom, the block centered vertically in the box and
+ * each line aligned inside it. Returns the box of every character in reading order.
+ */
+export const drawHorizontalText = (
+  ctx: TextContext,
+  lines: string[],
+  box: LayoutBox,
+  options: TextLayoutOptions
+): GlyphBox[] => {
+  const { fontSize, slant, bold, align } = options;
+  const lineHeightPx = fontSize * options.lineHeight;
+  const startY = box.top + (box.height - lines.length * lineHeightPx) / 2 + lineHeightPx / 2;
+  const glyphs: GlyphBox[] = [];
+
+  ctx.textAlign = 'left';
+
+  lines.forEach((line, index) => {
+    const y = startY + index * lineHeightPx;
+    const lineWidth = ctx.measureText(line).width;
+    const lineLeft = align === 'LEFT'
+      ? box.left
+      : align === 'RIGHT' ? box.left + box.width - lineWidth : box.left + (box.width - lineWidth) / 2;
+
+    // Slant about the line's own middle so it stays where it was placed
+    ctx.setTransform(1, 0, slant, 1, -slant * y, 0);
+    ctx.fillText(line, lineLeft, y);
+    if (bold) ctx.strokeText(line, lineLeft, y);
+
+    // Character boxes in reading order, for the stroke order reveal
+    const chars = Array.from(line);
+    let left = lineLeft;
+    chars.forEach((_, i) => {
+      const right = lineLeft + ctx.measureText(chars.slice(0, i + 1).join('')).width;
+      glyphs.push({ left, right, top: y - lineHeightPx / 2, bottom: y + lineHeightPx / 2 });
+      left = right;
+    });
+  });
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  return glyphs;
+};
+
+/**
+ * Largest font size whose layout fits the box. Extents don't scale exactly
+ * with the size (letter spacing is fixed), so the estimate is refined a few times.
+ */
+export const fitFontSize = (measure: (fontSize: number) => TextExtent, box: LayoutBox, initial: number): number => {
+  let size = initial;
+  for (let i = 0; i < 4; i++) {
+    const { width, height } = measure(size);
+    if (width <= 0 || height <= 0) break;
+    size *= Math.min(box.width / width, box.height / height);
+  }
+  // A little headroom for glyphs that overhang their advance
+  return Math.max(1, size * 0.96);
+};
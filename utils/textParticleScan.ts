@@ -0,0 +1,134 @@
+import { extractTextParticles, TextParticleJob } from './textParticles';
+import { getTextFont, getTextFontSources } from './textFonts';
+import type { TextParticleRequest, TextParticleResponse } from './textParticles.worker';
+
+export interface TextParticleCallbacks {
+  // Starts (or, after a failed worker, restarts) the block's particles
+  onStart: (total: number, glyphs: number) => void;
+  onChunk: (points: Float32Array) => void; // x, y pairs in canvas units
+  onDone: () => void;
+}
+
+interface ScanTask {
+  id: number;
+  job: TextParticleJob;
+  callbacks: TextParticleCallbacks;
+}
+
+// Cleared once a worker fails to start, so later scans go straight to the main thread
+let workersAvailable = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// One worker runs the scans in turn. It is only replaced when the scan it is
+// running is cancelled or it crashes; the fonts it has loaded go with it.
+let worker: Worker | null = null;
+let workerFamilies = new Set<string>(); // Families whose faces the worker has been given
+let running: ScanTask | null = null;
+const queue: ScanTask[] = [];
+let nextId = 1;
+
+// Same result, set and scanned on the page: for browsers without the worker,
+// and for a job the worker could not finish
+const scanOnMainThread = ({ job, callbacks }: ScanTask) => {
+  const buffer = document.createElement('canvas');
+  buffer.width = job.width;
+  buffer.height = job.height;
+  const ctx = buffer.getContext('2d', { willReadFrequently: true });
+  if (ctx) {
+    const particles = extractTextParticles(ctx, job);
+    callbacks.onStart(particles.total, particles.glyphs);
+    for (const points of particles.chunks) callbacks.onChunk(points);
+  }
+  callbacks.onDone();
+};
+
+const stopWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+const handleMessage = (e: MessageEvent<TextParticleResponse>) => {
+  const task = running;
+  const message = e.data;
+  if (!task || message.id !== task.id) return;
+
+  if (message.type === 'START') {
+    task.callbacks.onStart(message.total, message.glyphs);
+  } else if (message.type === 'CHUNK') {
+    task.callbacks.onChunk(message.points);
+  } else {
+    running = null;
+    if (message.type === 'FAILED') scanOnMainThread(task);
+    else task.callbacks.onDone();
+    runNext();
+  }
+};
+
+const handleError = (e: ErrorEvent) => {
+  console.error("Text particle worker failed:", e.message);
+  const task = running;
+  stopWorker();
+  running = null;
+  if (task) scanOnMainThread(task);
+  runNext();
+};
+
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (!workersAvailable) return null;
+  try {
+    worker = new Worker(new URL('./textParticles.worker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn("Text particle worker unavailable, scanning on the main thread", e);
+    workersAvailable = false;
+    return null;
+  }
+  worker.onmessage = handleMessage;
+  worker.onerror = handleError;
+  workerFamilies = new Set();
+  return worker;
+};
+
+const runNext = () => {
+  while (!running && queue.length > 0) {
+    const task = queue.shift()!;
+    const target = getWorker();
+    if (!target) {
+      scanOnMainThread(task);
+      continue;
+    }
+
+    const { block } = task.job;
+    const font = getTextFont(block.settings, block.text);
+    const fontSources = workerFamilies.has(font.family) ? [] : getTextFontSources(font);
+    if (fontSources.length > 0) workerFamilies.add(font.family);
+
+    running = task;
+    const request: TextParticleRequest = { ...task.job, id: task.id, fontSources };
+    target.postMessage(request);
+  }
+};
+
+/**
+ * Sets a text block and reads its particles off the main thread: the glyphs
+ * are drawn into an OffscreenCanvas in a worker, with the page's faces, and
+ * the points stream back in order while the scan works through them.
+ * Returns a function that drops the job. A job still waiting is taken out of
+ * the queue; the running one takes the worker with it, so its remaining
+ * chunks never arrive.
+ */
+export const scanTextParticles = (job: TextParticleJob, callbacks: TextParticleCallbacks): (() => void) => {
+  const task: ScanTask = { id: nextId++, job, callbacks };
+  queue.push(task);
+  runNext();
+
+  return () => {
+    const index = queue.indexOf(task);
+    if (index >= 0) {
+      queue.splice(index, 1);
+    } else if (running === task) {
+      stopWorker();
+      running = null;
+      runNext();
+    }
+  };
+};
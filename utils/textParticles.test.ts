@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import { BrushSettings, TextBlock } from '../types';
+import { extractTextParticles, TextParticleJob } from './textParticles';
+import { TextContext } from './textLayout';
+
+const WIDTH = 400;
+const HEIGHT = 200;
+
+const SETTINGS: BrushSettings = {
+  size: 10,
+  roughness: 0.45,
+  taper: 0.7,
+  color: '#1a1a1a',
+  concentration: 'DARK',
+  tipType: 'ELLIPSE',
+  roundness: 0.22,
+  angle: 85,
+  tipAngleMode: 'FIXED',
+  followStylus: true,
+  hardness: 0.8,
+  spacing: 0,
+  smoothing: 0.5,
+  stabilizer: 'OFF',
+  stabilizerStrength: 0.5,
+  entryPress: 0.3,
+  cornerPress: 0.3,
+  exitStyle: 'TAPER',
+  absorbency: 0.4,
+  wetness: 0.3,
+  inkLoad: 1.0,
+  inkDepletion: 0.2,
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  slant: 0,
+  fontSize: 60,
+  fontStyle: 'PEN',
+  customFontId: null,
+  weightOption: 'NORMAL',
+  writingDirection: 'HORIZONTAL',
+  textAlign: 'CENTER',
+  fitToBox: false,
+  textReveal: 'WRITE',
+  seed: 0x5e0e,
+  seedLocked: false,
+  isEraser: false
+};
+
+const makeJob = (text: string, settings: Partial<BrushSettings>): TextParticleJob => {
+  const block: TextBlock = { id: 'block', text, box: null, settings: { ...SETTINGS, ...settings } };
+  return { block, width: WIDTH, height: HEIGHT, dpr: 1, step: 1 };
+};
+
+const extract = (job: TextParticleJob) => {
+  const ctx = createCanvas(job.width, job.height).getContext('2d');
+  return extractTextParticles(ctx as unknown as TextContext, job);
+};
+
+const collect = (job: TextParticleJob) => {
+  const particles = extract(job);
+  const chunks = Array.from(particles.chunks);
+  return { ...particles, chunks, points: chunks.flatMap(chunk => Array.from(chunk)) };
+};
+
+describe('extractTextParticles', () => {
+  it('streams every inked sample once, in several chunks', () => {
+    const result = collect(makeJob('WRITE', { textReveal: 'WRITE' }));
+    expect(result.glyphs).toBe(5);
+    expect(result.chunks.length).toBeGreaterThan(1);
+    expect(result.points.length).toBe(result.total * 2);
+
+    const unique = new Set<string>();
+    for (let i = 0; i < result.points.length; i += 2) unique.add(`${result.points[i]},${result.points[i + 1]}`);
+    expect(unique.size).toBe(result.total);
+  });
+
+  it('hands out the first chunk before the rest is ordered', () => {
+    const particles = extract(makeJob('WRITE', { textReveal: 'WRITE' }));
+    const first = particles.chunks.next();
+    expect(first.done).toBe(false);
+    expect(first.value.length).toBeLessThan(particles.total * 2);
+  });
+
+  it('writes the first character before the last', () => {
+    const { points } = collect(makeJob('I   I', { textReveal: 'WRITE' }));
+    expect(points[0]).toBeLessThan(WIDTH / 2);
+    expect(points[points.length - 2]).toBeGreaterThan(WIDTH / 2);
+  });
+
+  it('scatters the same points in an order given by the seed', () => {
+    const write = collect(makeJob('WRITE', { textReveal: 'WRITE' }));
+    const dissolve = collect(makeJob('WRITE', { textReveal: 'DISSOLVE' }));
+    expect(dissolve.total).toBe(write.total);
+    expect(collect(makeJob('WRITE', { textReveal: 'DISSOLVE' })).points).toEqual(dissolve.points);
+    expect(collect(makeJob('WRITE', { textReveal: 'DISSOLVE', seed: 7 })).points).not.toEqual(dissolve.points);
+  });
+});
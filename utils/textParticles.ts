@@ -0,0 +1,88 @@
+import { TextBlock } from '../types';
+import { Vec } from './outline';
+import { drawTextGlyphs } from './textGlyphs';
+import { TextContext } from './textLayout';
+import { orderInkByStroke } from './textReveal';
+import { createRandom, shuffle } from './random';
+
+// Same cut-off the stroke order reveal uses for "inked"
+const INK_ALPHA = 50;
+
+// Points (x, y pairs) per chunk, so the first strokes can start drawing
+// while the rest of the text is still being ordered
+const CHUNK_POINTS = 2000;
+
+/**
+ * A text block to set and scan, in a buffer as large as the text canvas
+ */
+export interface TextParticleJob {
+  block: TextBlock;
+  width: number;     // Buffer pixels
+  height: number;
+  dpr: number;       // Buffer pixels per canvas unit
+  step: number;      // Sampling grid in buffer pixels
+}
+
+/**
+ * Particles of a block, in the order they should appear. The chunks are
+ * x, y pairs in canvas units, produced one at a time as they are iterated.
+ */
+export interface TextParticles {
+  glyphs: number; // Characters set
+  total: number;  // Points over all chunks
+  chunks: Generator<Float32Array>;
+}
+
+// Buffer index of every inked pixel on the sampling grid
+const sampleInk = (data: Uint8ClampedArray, width: number, height: number, step: number): number[] => {
+  const indices: number[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (data[(y * width + x) * 4 + 3] > INK_ALPHA) indices.push(y * width + x);
+    }
+  }
+  return indices;
+};
+
+// Packs runs of buffer positions into chunks in canvas units
+function* packChunks(runs: Iterable<Vec[]>, dpr: number): Generator<Float32Array> {
+  let chunk = new Float32Array(CHUNK_POINTS * 2);
+  let length = 0;
+  for (const run of runs) {
+    for (const p of run) {
+      chunk[length++] = p.x / dpr;
+      chunk[length++] = p.y / dpr;
+      if (length === chunk.length) {
+        yield chunk;
+        chunk = new Float32Array(CHUNK_POINTS * 2);
+        length = 0;
+      }
+    }
+  }
+  if (length > 0) yield chunk.slice(0, length);
+}
+
+/**
+ * Sets the block's text into the context and samples its inked pixels.
+ * WRITE orders them stroke by stroke as the chunks are taken; DISSOLVE
+ * shuffles them by the block's seed.
+ */
+export const extractTextParticles = (ctx: TextContext, job: TextParticleJob): TextParticles => {
+  const { block, width, height, dpr, step } = job;
+  const { settings } = block;
+
+  ctx.clearRect(0, 0, width, height);
+  const glyphs = drawTextGlyphs(ctx, block, width, height, dpr, 'black');
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const inked = sampleInk(data, width, height, step);
+
+  if (settings.textReveal === 'WRITE') {
+    const vertical = settings.writingDirection === 'VERTICAL';
+    const pieces = orderInkByStroke(data, width, height, step, glyphs, settings.slant || 0, vertical);
+    return { glyphs: glyphs.length, total: inked.length, chunks: packChunks(pieces, dpr) };
+  }
+
+  const scattered = shuffle(inked, createRandom(settings.seed))
+    .map(index => ({ x: index % width, y: Math.floor(index / width) }));
+  return { glyphs: glyphs.length, total: inked.length, chunks: packChunks([scattered], dpr) };
+};
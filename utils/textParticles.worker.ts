@@ -0,0 +1,63 @@
+import { TextBlock } from '../types';
+import { extractTextParticles, TextParticleJob } from './textParticles';
+import { FontSource, getFontSpec, getTextFont } from './textFonts';
+
+// Jobs come one at a time; the page terminates the worker to cancel one
+export interface TextParticleRequest extends TextParticleJob {
+  id: number;
+  fontSources: FontSource[]; // Faces this worker has not been given yet
+}
+
+// FAILED asks the page to set the text itself
+export type TextParticleResponse =
+  | { id: number; type: 'START'; glyphs: number; total: number }
+  | { id: number; type: 'CHUNK'; points: Float32Array }
+  | { id: number; type: 'DONE' }
+  | { id: number; type: 'FAILED' };
+
+// The DOM typings don't describe the worker's own font set
+const fonts = (self as unknown as { fonts: FontFaceSet }).fonts;
+
+// Reused across jobs, resized as the text canvas is
+let canvas: OffscreenCanvas | null = null;
+
+const post = (message: TextParticleResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const getContext = (width: number, height: number) => {
+  if (!canvas) canvas = new OffscreenCanvas(width, height);
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  return canvas.getContext('2d', { willReadFrequently: true });
+};
+
+// Loads the faces the block's characters need. False if one of them failed,
+// so the text would come out in a fallback face here but not on the page.
+const loadFonts = async (block: TextBlock): Promise<boolean> => {
+  const faces = await fonts.load(getFontSpec(getTextFont(block.settings, block.text), 16), block.text);
+  return faces.every(face => face.status === 'loaded');
+};
+
+self.onmessage = async (e: MessageEvent<TextParticleRequest>) => {
+  const { id, fontSources, ...job } = e.data;
+  try {
+    fontSources.forEach(({ family, source, descriptors }) => fonts.add(new FontFace(family, source, descriptors)));
+    const ctx = getContext(job.width, job.height);
+    if (!ctx || !(await loadFonts(job.block))) {
+      post({ id, type: 'FAILED' });
+      return;
+    }
+
+    const particles = extractTextParticles(ctx, job);
+    post({ id, type: 'START', glyphs: particles.glyphs, total: particles.total });
+    // Each chunk goes out as soon as it is ordered
+    for (const points of particles.chunks) {
+      post({ id, type: 'CHUNK', points }, [points.buffer]);
+    }
+    post({ id, type: 'DONE' });
+  } catch (error) {
+    console.error('Text particle scan failed:', error);
+    post({ id, type: 'FAILED' });
+  }
+};
@@ -0,0 +1,220 @@
+import { Vec } from './outline';
+
+// Same cut-off the particle scan uses for "inked"
+const INK_ALPHA = 50;
+
+/**
+ * Box one character occupies in the text buffer, before slant is applied
+ * (text is slanted about the vertical middle of each box).
+ * Boxes are listed in reading order.
+ */
+export interface GlyphBox {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+const NEIGHBOURS = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]];
+
+/**
+ * Zhang-Suen thinning: peels the ink down to one cell wide centre lines
+ */
+const thin = (ink: Uint8Array, w: number, h: number): Uint8Array => {
+  const img = ink.slice();
+  const remove: number[] = [];
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (let pass = 0; pass < 2; pass++) {
+      remove.length = 0;
+      for (let y = 1; y < h - 1; y++) {
+        for (let x = 1; x < w - 1; x++) {
+          const i = y * w + x;
+          if (!img[i]) continue;
+
+          // Neighbours clockwise from north
+          const p2 = img[i - w], p3 = img[i - w + 1], p4 = img[i + 1], p5 = img[i + w + 1];
+          const p6 = img[i + w], p7 = img[i + w - 1], p8 = img[i - 1], p9 = img[i - w - 1];
+          const count = p2 + p3 + p4 + p5 + p6 + p7 + p8 + p9;
+          if (count < 2 || count > 6) continue;
+
+          const ring = [p2, p3, p4, p5, p6, p7, p8, p9, p2];
+          let transitions = 0;
+          for (let k = 0; k < 8; k++) {
+            if (!ring[k] && ring[k + 1]) transitions++;
+          }
+          if (transitions !== 1) continue;
+
+          if (pass === 0 ? (p2 && p4 && p6) || (p4 && p6 && p8) : (p2 && p4 && p8) || (p2 && p6 && p8)) continue;
+          remove.push(i);
+        }
+      }
+      remove.forEach(i => { img[i] = 0; });
+      if (remove.length > 0) changed = true;
+    }
+  }
+  return img;
+};
+
+// Character under a buffer position; positions between boxes go to the nearest one.
+// Text is slanted about the middle of each box, so that is undone per box.
+const findGlyph = (glyphs: GlyphBox[], px: number, y: number, slant: number, vertical: boolean): number => {
+  let best = 0;
+  let bestDist = Infinity;
+  glyphs.forEach((g, i) => {
+    const x = px - slant * (y - (g.top + g.bottom) / 2);
+    const dx = x < g.left ? g.left - x : x > g.right ? x - g.right : 0;
+    const dy = y < g.top ? g.top - y : y > g.bottom ? y - g.bottom : 0;
+    // Staying on the right line (or column) matters more than the nearest character in it
+    const dist = vertical ? dx * 4 + dy : dx + dy * 4;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+    }
+  });
+  return best;
+};
+
+/**
+ * Orders the inked sample points of rendered text the way it would be
+ * written: character by character in reading order, each character's pieces
+ * from the top left, and inside a piece along its centre line starting from
+ * a free end. Yields the points of each piece, in buffer pixels, as soon as
+ * it is ordered.
+ */
+export function* orderInkByStroke(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  step: number,
+  glyphs: GlyphBox[],
+  slant: number,
+  vertical = false
+): Generator<Vec[]> {
+  const w = Math.ceil(width / step);
+  const h = Math.ceil(height / step);
+  const ink = new Uint8Array(w * h);
+
+  for (let gy = 0; gy < h; gy++) {
+    for (let gx = 0; gx < w; gx++) {
+      if (data[(gy * step * width + gx * step) * 4 + 3] > INK_ALPHA) ink[gy * w + gx] = 1;
+    }
+  }
+
+  // Character of each inked cell
+  const glyphOf = new Int32Array(w * h).fill(-1);
+  for (let i = 0; i < ink.length; i++) {
+    if (!ink[i]) continue;
+    glyphOf[i] = glyphs.length > 0 ? findGlyph(glyphs, (i % w) * step, Math.floor(i / w) * step, slant, vertical) : 0;
+  }
+
+  // Pieces: connected ink within one character, so joined cursive letters still split
+  const pieceOf = new Int32Array(w * h).fill(-1);
+  const pieces: { glyph: number; minX: number; minY: number; cells: number[] }[] = [];
+  for (let i = 0; i < ink.length; i++) {
+    if (!ink[i] || pieceOf[i] >= 0) continue;
+
+    const piece = { glyph: glyphOf[i], minX: Infinity, minY: Infinity, cells: [i] };
+    pieceOf[i] = pieces.length;
+    for (let k = 0; k < piece.cells.length; k++) {
+      const c = piece.cells[k];
+      const cx = c % w;
+      const cy = Math.floor(c / w);
+      piece.minX = Math.min(piece.minX, cx);
+      piece.minY = Math.min(piece.minY, cy);
+      NEIGHBOURS.forEach(([dx, dy]) => {
+        const nx = cx + dx;
+        const ny = cy + dy;
+        if (nx < 0 || ny < 0 || nx >= w || ny >= h) return;
+        const n = ny * w + nx;
+        if (ink[n] && pieceOf[n] < 0 && glyphOf[n] === piece.glyph) {
+          pieceOf[n] = pieces.length;
+          piece.cells.push(n);
+        }
+      });
+    }
+    pieces.push(piece);
+  }
+
+  // Reading order, then top left first within a character (ㄱ before ㅏ, ㄱ before ㅗ)
+  const order = pieces.map((_, i) => i);
+  order.sort((a, b) =>
+    pieces[a].glyph - pieces[b].glyph ||
+    (pieces[a].minX + pieces[a].minY) - (pieces[b].minX + pieces[b].minY)
+  );
+
+  const skeleton = thin(ink, w, h);
+  const time = new Float64Array(w * h);
+
+  for (const p of order) {
+    const { cells } = pieces[p];
+    const inPiece = (n: number) => pieceOf[n] === p;
+    const neighboursOf = (c: number, accept: (n: number) => boolean) => {
+      const cx = c % w;
+      const cy = Math.floor(c / w);
+      const out: number[] = [];
+      NEIGHBOURS.forEach(([dx, dy]) => {
+        const nx = cx + dx;
+        const ny = cy + dy;
+        if (nx < 0 || ny < 0 || nx >= w || ny >= h) return;
+        const n = ny * w + nx;
+        if (accept(n)) out.push(n);
+      });
+      return out;
+    };
+    const diagonal = (c: number) => (c % w) + Math.floor(c / w);
+
+    // Time along the centre line is the distance travelled from the top left
+    // free end; measuring it breadth first keeps thinning spurs from lagging behind
+    const isSkeleton = (n: number) => skeleton[n] === 1 && inPiece(n);
+    const spine = cells.filter(isSkeleton);
+    const visited = new Set<number>();
+    const queue: number[] = [];
+    let clock = 0;
+
+    while (visited.size < spine.length) {
+      const remaining = spine.filter(c => !visited.has(c));
+      const ends = remaining.filter(c => neighboursOf(c, isSkeleton).length <= 1);
+      const start = (ends.length > 0 ? ends : remaining).reduce((a, b) => (diagonal(b) < diagonal(a) ? b : a));
+
+      const first = queue.length;
+      visited.add(start);
+      time[start] = clock;
+      queue.push(start);
+      for (let k = first; k < queue.length; k++) {
+        const c = queue[k];
+        clock = Math.max(clock, time[c] + 1);
+        neighboursOf(c, n => isSkeleton(n) && !visited.has(n)).forEach(n => {
+          visited.add(n);
+          time[n] = time[c] + 1;
+          queue.push(n);
+        });
+      }
+    }
+
+    // Thinning keeps at least one cell of any blob, but fall back to a sweep anyway
+    if (queue.length === 0) {
+      const start = cells.reduce((a, b) => (diagonal(b) < diagonal(a) ? b : a));
+      time[start] = 0;
+      queue.push(start);
+      visited.add(start);
+    }
+
+    // The rest of the piece is written when the nearest centre line cell is
+    for (let k = 0; k < queue.length; k++) {
+      const c = queue[k];
+      neighboursOf(c, n => inPiece(n) && !visited.has(n)).forEach(n => {
+        visited.add(n);
+        time[n] = time[c];
+        queue.push(n);
+      });
+    }
+
+    yield cells
+      .slice()
+      .sort((a, b) => time[a] - time[b])
+      .map(c => ({ x: (c % w) * step, y: Math.floor(c / w) * step }));
+  }
+}
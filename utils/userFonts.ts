@@ -0,0 +1,99 @@
+import { UserFont } from '../types';
+
+const DB_NAME = 'seoye_fonts';
+const STORE = 'fonts';
+
+export const USER_FONT_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+interface StoredFont extends UserFont {
+  data: ArrayBuffer;
+}
+
+const FAMILY_PREFIX = 'seoye-user-font-';
+
+// Files of the registered fonts by family, to hand to the particle worker
+const registeredData = new Map<string, ArrayBuffer>();
+
+/**
+ * CSS family a user font is registered under. Derived from the id, so two
+ * files with the same internal name never replace each other.
+ */
+export const getUserFontFamily = (id: string): string => `${FAMILY_PREFIX}${id}`;
+
+export const isUserFontFamily = (family: string): boolean => family.startsWith(FAMILY_PREFIX);
+
+export const getUserFontData = (family: string): ArrayBuffer | undefined => registeredData.get(family);
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs one request in its own transaction and closes the database after
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Decodes the font and makes it available to canvas text
+const registerFont = async (font: StoredFont) => {
+  const face = new FontFace(getUserFontFamily(font.id), font.data);
+  await face.load();
+  document.fonts.add(face);
+  registeredData.set(getUserFontFamily(font.id), font.data);
+};
+
+/**
+ * Registers every saved font. Files that no longer decode are skipped.
+ */
+export const loadUserFonts = async (): Promise<UserFont[]> => {
+  try {
+    const stored = await withStore<StoredFont[]>('readonly', store => store.getAll());
+    const loaded: UserFont[] = [];
+    for (const font of stored) {
+      try {
+        await registerFont(font);
+        loaded.push({ id: font.id, name: font.name });
+      } catch (e) {
+        console.warn(`Failed to load font "${font.name}"`, e);
+      }
+    }
+    return loaded;
+  } catch (e) {
+    console.error("Failed to read saved fonts", e);
+    return [];
+  }
+};
+
+/**
+ * Loads a TTF/OTF/WOFF/WOFF2 file and keeps it for later sessions.
+ * Rejects if the browser can't decode the file.
+ */
+export const addUserFont = async (file: File): Promise<UserFont> => {
+  const font: StoredFont = {
+    id: Date.now().toString(),
+    name: file.name.replace(/\.(ttf|otf|woff2?)$/i, ''),
+    data: await file.arrayBuffer()
+  };
+  await registerFont(font);
+  await withStore('readwrite', store => store.put(font));
+  return { id: font.id, name: font.name };
+};
+
+export const deleteUserFont = async (id: string): Promise<void> => {
+  document.fonts.forEach(face => {
+    if (face.family.replace(/["']/g, '') === getUserFontFamily(id)) document.fonts.delete(face);
+  });
+  registeredData.delete(getUserFontFamily(id));
+  await withStore('readwrite', store => store.delete(id));
+};
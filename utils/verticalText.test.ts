@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { getColumnCenters, splitVerticalRuns } from './verticalText';
+
+describe('splitVerticalRuns', () => {
+  it('sets Hangul and Hanja upright, one cell each', () => {
+    expect(splitVerticalRuns('서예書')).toEqual([
+      { text: '서', kind: 'UPRIGHT' },
+      { text: '예', kind: 'UPRIGHT' },
+      { text: '書', kind: 'UPRIGHT' }
+    ]);
+  });
+
+  it('keeps a Latin word together and turns it sideways', () => {
+    expect(splitVerticalRuns('가Seoye나')).toEqual([
+      { text: '가', kind: 'UPRIGHT' },
+      { text: 'Seoye', kind: 'SIDEWAYS' },
+      { text: '나', kind: 'UPRIGHT' }
+    ]);
+  });
+
+  it('joins Latin runs across joiners only when Latin follows', () => {
+    expect(splitVerticalRuns("don't 3.14")).toEqual([{ text: "don't 3.14", kind: 'SIDEWAYS' }]);
+    expect(splitVerticalRuns('A-')).toEqual([
+      { text: 'A', kind: 'SIDEWAYS' },
+      { text: '-', kind: 'ROTATED' }
+    ]);
+  });
+
+  it('combines one or two digits into a single cell', () => {
+    expect(splitVerticalRuns('12월')).toEqual([
+      { text: '12', kind: 'COMBINED' },
+      { text: '월', kind: 'UPRIGHT' }
+    ]);
+    expect(splitVerticalRuns('2024')).toEqual([{ text: '2024', kind: 'SIDEWAYS' }]);
+  });
+
+  it('classifies spaces, corner punctuation and rotated marks', () => {
+    expect(splitVerticalRuns('「가」 。')).toEqual([
+      { text: '「', kind: 'ROTATED' },
+      { text: '가', kind: 'UPRIGHT' },
+      { text: '」', kind: 'ROTATED' },
+      { text: ' ', kind: 'SPACE' },
+      { text: '。', kind: 'PUNCTUATION' }
+    ]);
+  });
+
+  it('treats astral characters as one cell', () => {
+    expect(splitVerticalRuns('𠀀')).toEqual([{ text: '𠀀', kind: 'UPRIGHT' }]);
+  });
+
+  it('returns nothing for an empty line', () => {
+    expect(splitVerticalRuns('')).toEqual([]);
+  });
+});
+
+describe('getColumnCenters', () => {
+  it('runs right to left at the pitch, centered in the box', () => {
+    expect(getColumnCenters({ left: 100, top: 0, width: 200, height: 50 }, 3, 40)).toEqual([240, 200, 160]);
+    expect(getColumnCenters({ left: 0, top: 0, width: 100, height: 50 }, 2, 30)).toEqual([65, 35]);
+  });
+});
@@ -0,0 +1,155 @@
+import { GlyphBox } from './textReveal';
+import { LayoutBox, TextContext, TextExtent, TextLayoutOptions } from './textLayout';
+
+/**
+ * How a piece of a vertical line is set:
+ * - UPRIGHT: one full-width cell, as Hangul and Hanja are
+ * - SIDEWAYS: a Latin run turned 90° clockwise, as long as it is wide
+ * - COMBINED: one or two digits set across a single cell (가로짜기)
+ * - PUNCTUATION: 、。,. moved to the top right of their cell
+ * - ROTATED: brackets, dashes and similar marks turned to follow the column
+ * - SPACE: half a cell of blank
+ */
+export type VerticalRunKind = 'UPRIGHT' | 'SIDEWAYS' | 'COMBINED' | 'PUNCTUATION' | 'ROTATED' | 'SPACE';
+
+export interface VerticalRun {
+  text: string;
+  kind: VerticalRunKind;
+}
+
+const LATIN = /[A-Za-z0-9À-ɏ]/;
+// Allowed inside a Latin run when another Latin character follows, e.g. "don't", "A-4", "3.14"
+const LATIN_JOINERS = " '’&-.,:;!?/";
+const CORNER_PUNCTUATION = '、。，．,.';
+const ROTATED_MARKS = '()[]{}（）「」『』《》〈〉【】〔〕—–-~〜…‥:;ー';
+
+/**
+ * Splits one column of text into runs that are set differently
+ */
+export const splitVerticalRuns = (line: string): VerticalRun[] => {
+  const chars = Array.from(line);
+  const runs: VerticalRun[] = [];
+
+  for (let i = 0; i < chars.length; i++) {
+    const c = chars[i];
+
+    if (LATIN.test(c)) {
+      let end = i + 1;
+      while (end < chars.length) {
+        if (LATIN.test(chars[end])) end++;
+        else if (LATIN_JOINERS.includes(chars[end]) && end + 1 < chars.length && LATIN.test(chars[end + 1])) end += 2;
+        else break;
+      }
+      const text = chars.slice(i, end).join('');
+      runs.push({ text, kind: /^\d{1,2}$/.test(text) ? 'COMBINED' : 'SIDEWAYS' });
+      i = end - 1;
+    } else if (/\s/.test(c)) {
+      runs.push({ text: c, kind: 'SPACE' });
+    } else if (CORNER_PUNCTUATION.includes(c)) {
+      runs.push({ text: c, kind: 'PUNCTUATION' });
+    } else if (ROTATED_MARKS.includes(c)) {
+      runs.push({ text: c, kind: 'ROTATED' });
+    } else {
+      runs.push({ text: c, kind: 'UPRIGHT' });
+    }
+  }
+  return runs;
+};
+
+// Length a run takes up along the column
+const getAdvance = (ctx: TextContext, run: VerticalRun, fontSize: number): number => {
+  if (run.kind === 'SPACE') return fontSize * 0.5;
+  if (run.kind === 'SIDEWAYS') return Math.max(fontSize, ctx.measureText(run.text).width);
+  return fontSize;
+};
+
+// Cells are placed one by one, so spacing is added by the layout rather than the context
+const clearLetterSpacing = (ctx: TextContext) => {
+  try {
+    // @ts-ignore
+    ctx.letterSpacing = '0px';
+  } catch (e) {}
+};
+
+const getColumnLength = (ctx: TextContext, runs: VerticalRun[], options: TextLayoutOptions): number =>
+  runs.reduce((sum, run) => sum + getAdvance(ctx, run, options.fontSize) + options.letterSpacing, 0) -
+  (runs.length > 0 ? options.letterSpacing : 0);
+
+export const measureVerticalText = (ctx: TextContext, lines: string[], options: TextLayoutOptions): TextExtent => {
+  clearLetterSpacing(ctx);
+  return {
+    width: lines.length * options.fontSize * options.lineHeight,
+    height: Math.max(0, ...lines.map(line => getColumnLength(ctx, splitVerticalRuns(line), options)))
+  };
+};
+
+/**
+ * Centre of each of that many columns set across the box at the given pitch,
+ * right to left, the group centered in the box
+ */
+export const getColumnCenters = (box: LayoutBox, count: number, pitch: number): number[] => {
+  const firstX = box.left + box.width / 2 + ((count - 1) * pitch) / 2;
+  return Array.from({ length: count }, (_, col) => firstX - col * pitch);
+};
+
+/**
+ * Sets lines as columns, top to bottom and right to left, centered across
+ * the box. Alignment puts each column at the top (LEFT), middle or bottom
+ * (RIGHT) of the box. Expects the font and fill already set on the context.
+ * Returns the box of every drawn run in reading order.
+ */
+export const drawVerticalText = (
+  ctx: TextContext,
+  lines: string[],
+  box: LayoutBox,
+  options: TextLayoutOptions
+): GlyphBox[] => {
+  const { fontSize, letterSpacing, slant, bold, align } = options;
+  const pitch = fontSize * options.lineHeight;
+  const columns = lines.map(splitVerticalRuns);
+  const centers = getColumnCenters(box, columns.length, pitch);
+
+  clearLetterSpacing(ctx);
+  ctx.textAlign = 'center';
+
+  const glyphs: GlyphBox[] = [];
+
+  columns.forEach((runs, col) => {
+    const x = centers[col];
+    const length = getColumnLength(ctx, runs, options);
+    let y = align === 'LEFT'
+      ? box.top
+      : align === 'RIGHT' ? box.top + box.height - length : box.top + (box.height - length) / 2;
+
+    runs.forEach(run => {
+      const advance = getAdvance(ctx, run, fontSize);
+      const cy = y + advance / 2;
+
+      if (run.kind !== 'SPACE') {
+        ctx.save();
+        ctx.translate(x, cy);
+        // Slant each cell about its own centre so the column stays straight
+        ctx.transform(1, 0, slant, 1, 0, 0);
+
+        if (run.kind === 'PUNCTUATION') {
+          ctx.translate(fontSize * 0.3, -fontSize * 0.4);
+        } else if (run.kind === 'SIDEWAYS' || run.kind === 'ROTATED') {
+          ctx.rotate(Math.PI / 2);
+        } else if (run.kind === 'COMBINED') {
+          const textWidth = ctx.measureText(run.text).width;
+          if (textWidth > fontSize * 0.9) ctx.scale((fontSize * 0.9) / textWidth, 1);
+        }
+
+        ctx.fillText(run.text, 0, 0);
+        if (bold) ctx.strokeText(run.text, 0, 0);
+        ctx.restore();
+
+        glyphs.push({ left: x - pitch / 2, right: x + pitch / 2, top: y, bottom: y + advance });
+      }
+
+      y += advance + letterSpacing;
+    });
+  });
+
+  return glyphs;
+};